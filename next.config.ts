@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The canvas library is a native module, which cannot be bundled
+  serverExternalPackages: ["@napi-rs/canvas"],
 };
 
 export default nextConfig;
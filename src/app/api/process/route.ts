@@ -0,0 +1,94 @@
+import { EditSpecError, parseEditSpec } from "@/lib/edit-spec"
+import { processPdf } from "@/lib/headless"
+import { PdfFileError } from "@/lib/pdf"
+
+// Pages are rendered with Node's canvas library, which the edge runtime cannot load
+export const runtime = "nodejs"
+
+// Uploads are held in memory while they are processed, so they are kept well under the editor's own limit
+const MAX_UPLOAD_SIZE = 25 * 1024 * 1024
+// Image stamps are embedded in the spec as data URLs, so it can be sizable too
+const MAX_SPEC_SIZE = 5 * 1024 * 1024
+
+const MAX_REQUEST_SIZE = MAX_UPLOAD_SIZE + MAX_SPEC_SIZE
+
+const formatSize = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`
+
+// Reads the body as it arrives, giving up with null as soon as it is over `limit` bytes
+const readBody = async (request: Request, limit: number) => {
+  const chunks: Uint8Array[] = []
+  if (!request.body) return new Blob(chunks)
+  const reader = request.body.getReader()
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return new Blob(chunks)
+    size += value.length
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+}
+
+const errorResponse = (status: number, error: string) => Response.json({ error }, { status })
+
+/**
+ * Applies an edit spec to a PDF and responds with the edited PDF. Takes
+ * multipart form data with the PDF as `file` and the spec, as described by
+ * `EditSpec`, as `edits` (text or a JSON file). Errors are JSON with a message
+ * that can be shown to the user.
+ */
+export async function POST(request: Request) {
+  // A declared length is checked before anything is read. Chunked uploads have none, so the
+  // body is counted as it comes in as well, rather than leaving formData() to read all of it.
+  const tooLarge = `The request is over the ${formatSize(MAX_REQUEST_SIZE)} limit.`
+  if (Number(request.headers.get("content-length")) > MAX_REQUEST_SIZE) return errorResponse(413, tooLarge)
+  const body = await readBody(request, MAX_REQUEST_SIZE)
+  if (!body) return errorResponse(413, tooLarge)
+
+  let form: FormData
+  try {
+    const contentType = request.headers.get("content-type") ?? ""
+    form = await new Response(body, { headers: { "Content-Type": contentType } }).formData()
+  } catch {
+    return errorResponse(400, 'Send the PDF and its edits as multipart form data, in the "file" and "edits" fields.')
+  }
+
+  const file = form.get("file")
+  const edits = form.get("edits")
+  if (!(file instanceof File)) {
+    return errorResponse(400, 'The request has no PDF. Send it as a file in the "file" field.')
+  }
+  if (edits === null) {
+    return errorResponse(400, 'The request has no edits. Send them as JSON in the "edits" field.')
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return errorResponse(
+      413,
+      `The PDF is ${formatSize(file.size)}, which is over the ${formatSize(MAX_UPLOAD_SIZE)} limit.`,
+    )
+  }
+  const specSize = typeof edits === "string" ? new Blob([edits]).size : edits.size
+  if (specSize > MAX_SPEC_SIZE) {
+    return errorResponse(413, `The edits are over the ${formatSize(MAX_SPEC_SIZE)} limit.`)
+  }
+
+  try {
+    const spec = parseEditSpec(typeof edits === "string" ? edits : await edits.text())
+    const data = await processPdf(file, spec)
+    return new Response(data, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": 'attachment; filename="edited-pdf.pdf"',
+      },
+    })
+  } catch (error) {
+    if (error instanceof EditSpecError || error instanceof PdfFileError) {
+      return errorResponse(422, error.message)
+    }
+    console.error("Error processing PDF:", error)
+    return errorResponse(500, "The PDF could not be processed.")
+  }
+}
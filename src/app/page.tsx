@@ -1,84 +1,41 @@
 "use client"
 
-// Add type declarations for PDF.js and PDF-lib
-interface PDFDocumentProxy {
-  numPages: number;
-  getPage: (pageNumber: number) => Promise<PDFPageProxy>;
+type SelectionShape = "freehand" | RegionShape["kind"]
+
+interface ToolSettings {
+  brushSize: number
+  selectionShape: SelectionShape
+  blurStyle: ObfuscationStyle
+  blurIntensity: number
+  blockSize: number
+  blurColor: string
+  redactColor: string
+  textStyle: TextStyle
+  markupTool: MarkupTool
+  markupStyle: MarkupStyle
+  piiRules: PiiRuleConfig
 }
 
-interface PDFPageProxy {
-  getViewport: (options: { scale: number }) => PDFPageViewport;
-  render: (options: { canvasContext: CanvasRenderingContext2D; viewport: PDFPageViewport }) => { promise: Promise<void> };
-}
-
-interface PDFPageViewport {
-  width: number;
-  height: number;
-}
-
-interface PDFJSStatic {
-  getDocument: (data: ArrayBuffer) => { promise: Promise<PDFDocumentProxy> };
-  GlobalWorkerOptions: { workerSrc: string };
-}
-
-interface PDFDocument {
-  pages: PDFPage[];
-  embedPng: (imageData: string) => Promise<PDFImage>;
-  addPage: (dimensions: [number, number]) => PDFPage;
-  save: () => Promise<Uint8Array>;
-}
-
-interface PDFPage {
-  drawImage: (image: PDFImage, options: { x: number; y: number; width: number; height: number }) => void;
-}
-
-interface PDFImage {
-  width: number;
-  height: number;
-}
-
-interface PDFLibStatic {
-  PDFDocument: {
-    create: () => Promise<PDFDocument>;
-  };
-}
+type EditorProject = ProjectFile<EditState, ToolSettings>
 
-declare global {
-  interface Window {
-    pdfjsLib: PDFJSStatic | undefined;
-    PDFLib: PDFLibStatic | undefined;
-  }
-}
+// Delay before edits are written to the autosave, so a burst of changes is saved once
+const AUTOSAVE_DELAY = 1000
 
-interface BlurStroke {
-  x: number
-  y: number
-  size: number
-  intensity: number
-}
+const MIN_ZOOM = 0.25
+const MAX_ZOOM = 5
+const ZOOM_STEP = 1.25
 
-interface EraseStroke {
-  x: number
-  y: number
-  size: number
-}
+// Longest side of a newly placed image stamp, in page units
+const DEFAULT_STAMP_SIZE = 150
 
-interface EditAction {
-  type: "blur" | "erase"
-  strokes: BlurStroke[] | EraseStroke[]
-}
+// Brush size multiplier at zero pen pressure; full pressure uses the selected size
+const MIN_PRESSURE_SCALE = 0.25
 
-interface TextBox {
-  id: string
-  x: number
-  y: number
-  text: string
-  fontSize: number
-  color: string
-  isEditing: boolean
-}
+// Freehand dabs are spaced at most this fraction of the brush size apart
+const STROKE_SPACING = 0.25
 
-import { useState, useRef, useEffect, useCallback } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -86,6 +43,96 @@ import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Slider } from "@/components/ui/slider"
 import { Textarea } from "@/components/ui/textarea"
+import { AnnotationOverlay } from "@/components/annotation-overlay"
+import { BatchDialog } from "@/components/batch-dialog"
+import { DEFAULT_EXPORT_SETTINGS, ExportDialog, type ExportSettings } from "@/components/export-dialog"
+import { FileDropZone } from "@/components/file-drop-zone"
+import { FormFieldInput, isFillableField } from "@/components/form-field-input"
+import { ImageStampOverlay } from "@/components/image-stamp-overlay"
+import { MarkupPreview } from "@/components/markup-preview"
+import { PageThumbnails } from "@/components/page-thumbnails"
+import { PasswordPrompt } from "@/components/password-prompt"
+import { SignaturePad } from "@/components/signature-pad"
+import { PiiScannerPanel } from "@/components/pii-scanner-panel"
+import { TextSearchPanel } from "@/components/text-search-panel"
+import { TextBoxPreview } from "@/components/text-box-preview"
+import { useEditHistory } from "@/hooks/use-edit-history"
+import { getTemplateEdits, processBatch, type BatchResult, type PageRule } from "@/lib/batch"
+import {
+  createPageEntries,
+  EMPTY_EDIT_STATE,
+  getDragRect,
+  getShapeBounds,
+  parsePageRange,
+  TEXT_BOX_PADDING,
+  type BlurStroke,
+  type EditAction,
+  type EditState,
+  type EraseStroke,
+  type Obfuscation,
+  type ObfuscationStyle,
+  type PageEntry,
+  type PageRect,
+  type Point,
+  type RegionShape,
+  type TextBox,
+} from "@/lib/edit-model"
+import {
+  applyBlurStrokes,
+  applyEditActions,
+  applyEraseStrokes,
+  getPageViewport,
+  getSourcePage,
+} from "@/lib/edit-render"
+import { checkSavedEdits, EditSpecError, pickTextStyle } from "@/lib/edit-spec"
+import { exportImages, ImageExportError } from "@/lib/image-export"
+import {
+  ImageFileError,
+  loadStampImage,
+  STAMP_IMAGE_TYPES,
+  type ImageStamp,
+  type StampImage,
+} from "@/lib/image-stamp"
+import { createMarkup, type MarkupAction, type MarkupStyle, type MarkupTool } from "@/lib/markup"
+import {
+  checkPdfFile,
+  hasPdfForm,
+  isPdfEncrypted,
+  loadPdfJs,
+  MAX_PDF_SIZE,
+  openPdfFile,
+  PdfFileError,
+} from "@/lib/pdf"
+import {
+  applyAnnotationEdit,
+  applyFormValue,
+  readPageAnnotations,
+  type AnnotationEdit,
+  type FormValue,
+  type PdfAnnotation,
+} from "@/lib/pdf-annotations"
+import { exportDocument, type ExportMode } from "@/lib/pdf-export"
+import { DEFAULT_PII_RULE_CONFIG, isValidRule, type PiiRuleConfig } from "@/lib/pii-rules"
+import { extractPageText, type PageText, type TextMatch } from "@/lib/text-search"
+import {
+  DEFAULT_TEXT_STYLE,
+  FONT_FAMILIES,
+  layoutText,
+  loadMeasurementFonts,
+  type FontLoader,
+  type TextStyle,
+} from "@/lib/text-layout"
+import {
+  PROJECT_FILE_VERSION,
+  ProjectFileError,
+  clearSession,
+  hashPdf,
+  loadSession,
+  parseProjectFile,
+  saveSession,
+  type ProjectFile,
+  type SavedSession,
+} from "@/lib/project"
 import {
   Upload,
   Edit3,
@@ -99,82 +146,383 @@ import {
   Move,
   Check,
   X,
+  SquareDashed,
+  Pencil,
+  Undo2,
+  Redo2,
+  ZoomIn,
+  ZoomOut,
+  ArrowLeftRight,
+  Maximize,
+  Brush,
+  Square,
+  Circle,
+  Lasso,
+  History,
+  FolderOpen,
+  Save,
+  Bold,
+  Italic,
+  Underline,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  PaintBucket,
+  RotateCw,
+  Trash2,
+  FilePlus,
+  FileOutput,
+  ArrowUp,
+  ArrowDown,
+  Combine,
+  ImagePlus,
+  Signature,
+  Stamp,
+  Highlighter,
+  Strikethrough,
+  RectangleHorizontal,
+  Minus,
+  MoveUpRight,
+  PenLine,
+  Shapes,
+  FormInput,
+  Grid3x3,
+  Shuffle,
+  FileStack,
+  type LucideIcon,
 } from "lucide-react"
 
+const SELECTION_SHAPES: { shape: SelectionShape; label: string; icon: LucideIcon }[] = [
+  { shape: "freehand", label: "Brush", icon: Brush },
+  { shape: "rectangle", label: "Rectangle", icon: Square },
+  { shape: "ellipse", label: "Ellipse", icon: Circle },
+  { shape: "lasso", label: "Lasso", icon: Lasso },
+]
+
+const OBFUSCATION_STYLES: { style: ObfuscationStyle; label: string; icon: LucideIcon }[] = [
+  { style: "blur", label: "Blur", icon: Blur },
+  { style: "pixelate", label: "Pixelate", icon: Grid3x3 },
+  { style: "noise", label: "Noise", icon: Shuffle },
+  { style: "fill", label: "Solid Fill", icon: PaintBucket },
+]
+
+const MARKUP_TOOLS: { tool: MarkupTool; label: string; icon: LucideIcon }[] = [
+  { tool: "highlight", label: "Highlight", icon: Highlighter },
+  { tool: "underline", label: "Underline", icon: Underline },
+  { tool: "strikeout", label: "Strike-through", icon: Strikethrough },
+  { tool: "rectangle", label: "Rectangle", icon: RectangleHorizontal },
+  { tool: "ellipse", label: "Ellipse", icon: Circle },
+  { tool: "line", label: "Line", icon: Minus },
+  { tool: "arrow", label: "Arrow", icon: MoveUpRight },
+  { tool: "pen", label: "Pen", icon: PenLine },
+]
+
+const MARKUP_COLORS = ["#facc15", "#22c55e", "#3b82f6", "#ef4444", "#111827"]
+
+const DEFAULT_MARKUP_STYLE: MarkupStyle = { color: "#ef4444", strokeWidth: 2 }
+
+const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  brushSize: 20,
+  selectionShape: "freehand",
+  blurStyle: "blur",
+  blurIntensity: 5,
+  blockSize: 8,
+  blurColor: "#000000",
+  redactColor: "#000000",
+  textStyle: DEFAULT_TEXT_STYLE,
+  markupTool: "highlight",
+  markupStyle: DEFAULT_MARKUP_STYLE,
+  piiRules: DEFAULT_PII_RULE_CONFIG,
+}
+
+const TEXT_DECORATIONS: { key: "bold" | "italic" | "underline"; label: string; icon: LucideIcon }[] = [
+  { key: "bold", label: "Bold", icon: Bold },
+  { key: "italic", label: "Italic", icon: Italic },
+  { key: "underline", label: "Underline", icon: Underline },
+]
+
+const TEXT_ALIGNMENTS: { align: TextStyle["align"]; label: string; icon: LucideIcon }[] = [
+  { align: "left", label: "Align left", icon: AlignLeft },
+  { align: "center", label: "Align center", icon: AlignCenter },
+  { align: "right", label: "Align right", icon: AlignRight },
+]
+
+const isObject = (value: unknown) => typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isColor = (value: unknown) => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value)
+
+// The slider ranges, so a setting is never out of reach of its control
+const isInRange = (min: number, max: number) => (value: unknown) =>
+  typeof value === "number" && value >= min && value <= max
+
+// Each setting of `saved` that passes its check, and the default for the rest
+const pickValid = <T extends object>(
+  saved: unknown,
+  defaults: T,
+  checks: { [K in keyof T]: (value: unknown) => boolean },
+): T => {
+  const record = isObject(saved) ? (saved as Record<string, unknown>) : {}
+  const keys = Object.keys(defaults) as (keyof T & string)[]
+  return Object.fromEntries(keys.map((key) => [key, checks[key](record[key]) ? record[key] : defaults[key]])) as T
+}
+
+// Project files can be edited by hand or come from older versions, so a setting that would
+// break a tool falls back to its default instead
+const readToolSettings = (saved: unknown): ToolSettings => {
+  const settings = pickValid(saved, DEFAULT_TOOL_SETTINGS, {
+    brushSize: isInRange(5, 50),
+    selectionShape: (value) => SELECTION_SHAPES.some(({ shape }) => shape === value),
+    blurStyle: (value) => OBFUSCATION_STYLES.some(({ style }) => style === value),
+    blurIntensity: isInRange(1, 20),
+    blockSize: isInRange(2, 24),
+    blurColor: isColor,
+    redactColor: isColor,
+    textStyle: isObject,
+    markupTool: (value) => MARKUP_TOOLS.some(({ tool }) => tool === value),
+    markupStyle: isObject,
+    piiRules: isObject,
+  })
+  const { disabledRules, customRules } = settings.piiRules
+  return {
+    ...settings,
+    textStyle: { ...DEFAULT_TEXT_STYLE, ...pickTextStyle(settings.textStyle) },
+    markupStyle: pickValid(settings.markupStyle, DEFAULT_MARKUP_STYLE, {
+      color: isColor,
+      strokeWidth: isInRange(1, 12),
+    }),
+    piiRules: {
+      disabledRules: Array.isArray(disabledRules) ? disabledRules.filter((id) => typeof id === "string") : [],
+      customRules: Array.isArray(customRules) ? customRules.filter(isValidRule) : [],
+    },
+  }
+}
+
+const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value))
+
+// Fills the gap between two pointer samples so fast strokes stay continuous
+const interpolateStrokePoints = (from: Point & { size: number }, to: Point & { size: number }) => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y)
+  const spacing = Math.max(0.5, Math.min(from.size, to.size) * STROKE_SPACING)
+  const steps = Math.max(1, Math.ceil(distance / spacing))
+  return Array.from({ length: steps }, (_, index) => {
+    const t = (index + 1) / steps
+    return {
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+      size: from.size + (to.size - from.size) * t,
+    }
+  })
+}
+
+/**
+ * Rebuilds the per-page edit maps for a new page list. `previousPositions`
+ * gives, for each new page, the position it had before, or null for a new page.
+ */
+const arrangePages = (state: EditState, pages: PageEntry[], previousPositions: (number | null)[]): EditState => {
+  const editActions: EditState["editActions"] = {}
+  const textBoxes: EditState["textBoxes"] = {}
+  const images: EditState["images"] = {}
+  const annotationEdits: EditState["annotationEdits"] = {}
+  previousPositions.forEach((previous, index) => {
+    if (previous === null) return
+    if (state.editActions[previous]) editActions[index + 1] = state.editActions[previous]
+    if (state.textBoxes[previous]) textBoxes[index + 1] = state.textBoxes[previous]
+    if (state.images[previous]) images[index + 1] = state.images[previous]
+    if (state.annotationEdits[previous]) annotationEdits[index + 1] = state.annotationEdits[previous]
+  })
+  return { pages, editActions, textBoxes, images, annotationEdits, formValues: state.formValues }
+}
+
+// Quarter turn of a point on a page of the given displayed size
+const rotatePoint = <T extends Point>(point: T, size: { width: number; height: number }, clockwise: boolean): T =>
+  clockwise
+    ? { ...point, x: size.height - point.y, y: point.x }
+    : { ...point, x: point.y, y: size.width - point.x }
+
+const rotateRect = <T extends PageRect>(rect: T, size: { width: number; height: number }, clockwise: boolean): T => ({
+  ...rect,
+  ...getDragRect(
+    rotatePoint({ x: rect.x, y: rect.y }, size, clockwise),
+    rotatePoint({ x: rect.x + rect.width, y: rect.y + rect.height }, size, clockwise),
+  ),
+})
+
+const rotateShape = (shape: RegionShape, size: { width: number; height: number }, clockwise: boolean): RegionShape =>
+  shape.kind === "lasso"
+    ? { ...shape, points: shape.points.map((point) => rotatePoint(point, size, clockwise)) }
+    : rotateRect(shape, size, clockwise)
+
+// Keeps edits over the same content when their page is turned
+const rotateEditAction = (
+  action: EditAction,
+  size: { width: number; height: number },
+  clockwise: boolean,
+): EditAction => {
+  if (action.type === "blur") {
+    return { ...action, strokes: action.strokes.map((stroke) => rotatePoint(stroke, size, clockwise)) }
+  } else if (action.type === "erase") {
+    return { ...action, strokes: action.strokes.map((stroke) => rotatePoint(stroke, size, clockwise)) }
+  } else if (action.type === "redact") {
+    return { ...action, regions: action.regions.map((region) => rotateRect(region, size, clockwise)) }
+  } else if (action.type === "blur-region" || action.type === "erase-region") {
+    return { ...action, shape: rotateShape(action.shape, size, clockwise) }
+  } else if ("points" in action) {
+    return { ...action, points: action.points.map((point) => rotatePoint(point, size, clockwise)) }
+  } else if ("start" in action) {
+    return {
+      ...action,
+      start: rotatePoint(action.start, size, clockwise),
+      end: rotatePoint(action.end, size, clockwise),
+    }
+  }
+  return rotateRect(action, size, clockwise)
+}
+
+// Stamps turn with the page around their own centre
+const rotateImageStamp = (stamp: ImageStamp, size: { width: number; height: number }, clockwise: boolean) => {
+  const center = rotatePoint({ x: stamp.x + stamp.width / 2, y: stamp.y + stamp.height / 2 }, size, clockwise)
+  return {
+    ...stamp,
+    x: center.x - stamp.width / 2,
+    y: center.y - stamp.height / 2,
+    rotation: (stamp.rotation + (clockwise ? 90 : 270)) % 360,
+  }
+}
+
+// Text stays upright, so boxes keep their size and only their centre turns with the page
+const rotateTextBox = (
+  textBox: TextBox,
+  boxSize: { width: number; height: number },
+  size: { width: number; height: number },
+  clockwise: boolean,
+) => {
+  const center = rotatePoint({ x: textBox.x + boxSize.width / 2, y: textBox.y + boxSize.height / 2 }, size, clockwise)
+  return { ...textBox, x: center.x - boxSize.width / 2, y: center.y - boxSize.height / 2 }
+}
+
 export default function PDFEditor() {
-  const [pdfFile, setPdfFile] = useState<File | null>(null)
+  // The loaded documents in merge order, and files picked for merging but not loaded yet
+  const [pdfFiles, setPdfFiles] = useState<File[]>([])
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
   const [isEditing, setIsEditing] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
-  const [totalPages, setTotalPages] = useState(0)
-  const [editMode, setEditMode] = useState<"blur" | "erase" | "text" | null>(null)
-  const [editActions, setEditActions] = useState<{ [page: number]: EditAction[] }>({})
-  const [textBoxes, setTextBoxes] = useState<{ [page: number]: TextBox[] }>({})
+  const [pageInput, setPageInput] = useState("1")
+  const [editMode, setEditMode] = useState<"blur" | "erase" | "redact" | "markup" | "text" | "image" | "form" | null>(
+    null,
+  )
+  const {
+    state: editState,
+    update: updateEditState,
+    commit: commitHistory,
+    undo,
+    redo,
+    reset: resetHistory,
+    canUndo,
+    canRedo,
+  } = useEditHistory<EditState>(EMPTY_EDIT_STATE)
+  const { pages, editActions, textBoxes, images, annotationEdits, formValues } = editState
+  const totalPages = pages.length
   const [isDrawing, setIsDrawing] = useState(false)
   const [currentStrokes, setCurrentStrokes] = useState<BlurStroke[] | EraseStroke[]>([])
-  const [brushSize, setBrushSize] = useState(20)
-  const [fontSize, setFontSize] = useState(16)
-  const [textColor, setTextColor] = useState("#000000")
-  const [blurIntensity, setBlurIntensity] = useState(5)
+  const [brushSize, setBrushSize] = useState(DEFAULT_TOOL_SETTINGS.brushSize)
+  const [selectionShape, setSelectionShape] = useState(DEFAULT_TOOL_SETTINGS.selectionShape)
+  const [textStyle, setTextStyle] = useState(DEFAULT_TOOL_SETTINGS.textStyle)
+  const [textFonts, setTextFonts] = useState<FontLoader | null>(null)
+  const [markupTool, setMarkupTool] = useState(DEFAULT_TOOL_SETTINGS.markupTool)
+  const [markupStyle, setMarkupStyle] = useState(DEFAULT_TOOL_SETTINGS.markupStyle)
+  // Images uploaded or signed this session, ready to be stamped onto pages
+  const [stampImages, setStampImages] = useState<StampImage[]>([])
+  const [activeStampImage, setActiveStampImage] = useState<StampImage | null>(null)
+  const [isSigning, setIsSigning] = useState(false)
+  const [piiRuleConfig, setPiiRuleConfig] = useState(DEFAULT_TOOL_SETTINGS.piiRules)
+  // Text matches outlined on the page, keyed by the panel that found them
+  const [textHighlights, setTextHighlights] = useState<{ search?: TextMatch[]; pii?: TextMatch[] }>({})
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null)
+  const [extractRange, setExtractRange] = useState("")
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false)
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS)
+  const [hasFormFields, setHasFormFields] = useState(false)
+  const [flattenForm, setFlattenForm] = useState(false)
+  const [blurStyle, setBlurStyle] = useState(DEFAULT_TOOL_SETTINGS.blurStyle)
+  const [blurIntensity, setBlurIntensity] = useState(DEFAULT_TOOL_SETTINGS.blurIntensity)
+  const [blockSize, setBlockSize] = useState(DEFAULT_TOOL_SETTINGS.blockSize)
+  const [blurColor, setBlurColor] = useState(DEFAULT_TOOL_SETTINGS.blurColor)
+  const [redactColor, setRedactColor] = useState(DEFAULT_TOOL_SETTINGS.redactColor)
+  // Anchor of the rectangle being dragged out for redactions and rectangle/ellipse selections
+  const [dragStart, setDragStart] = useState<Point | null>(null)
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([])
+  const [penPoints, setPenPoints] = useState<Point[]>([])
   const [draggedTextBox, setDraggedTextBox] = useState<string | null>(null)
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 })
   const [isLoading, setIsLoading] = useState(false)
+  const [isOpening, setIsOpening] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [renderError, setRenderError] = useState<string | null>(null)
+  // Set while a password-protected PDF waits for its password
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    fileName: string
+    incorrect: boolean
+    resolve: (password: string | null) => void
+  } | null>(null)
+  const [pdfHashes, setPdfHashes] = useState<string[]>([])
+  // Identifies the loaded documents, so per-document panels start over when they change
+  const documentKey = pdfHashes.join(",")
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null)
+  const [zoom, setZoom] = useState(1.5)
+  const [fitMode, setFitMode] = useState<"width" | "page" | null>("width")
+  const [pageSize, setPageSize] = useState({ width: 0, height: 0 })
+  const [renderedPage, setRenderedPage] = useState<{ pageNum: number } | null>(null)
+  const [pageAnnotations, setPageAnnotations] = useState<PdfAnnotation[]>([])
+  const [panStart, setPanStart] = useState<{ x: number; y: number; scrollLeft: number; scrollTop: number } | null>(
+    null,
+  )
+
+  // Changes made through these setters are recorded once commitHistory() is called
+  const setEditActions = useCallback(
+    (updater: (prev: EditState["editActions"]) => EditState["editActions"]) =>
+      updateEditState((state) => ({ ...state, editActions: updater(state.editActions) })),
+    [updateEditState],
+  )
+
+  const setTextBoxes = useCallback(
+    (updater: (prev: EditState["textBoxes"]) => EditState["textBoxes"]) =>
+      updateEditState((state) => ({ ...state, textBoxes: updater(state.textBoxes) })),
+    [updateEditState],
+  )
+
+  const setImages = useCallback(
+    (updater: (prev: EditState["images"]) => EditState["images"]) =>
+      updateEditState((state) => ({ ...state, images: updater(state.images) })),
+    [updateEditState],
+  )
+
+  const setAnnotationEdits = useCallback(
+    (updater: (prev: EditState["annotationEdits"]) => EditState["annotationEdits"]) =>
+      updateEditState((state) => ({ ...state, annotationEdits: updater(state.annotationEdits) })),
+    [updateEditState],
+  )
+  const setFormValues = useCallback(
+    (updater: (prev: EditState["formValues"]) => EditState["formValues"]) =>
+      updateEditState((state) => ({ ...state, formValues: updater(state.formValues) })),
+    [updateEditState],
+  )
 
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const pdfDocRef = useRef<PDFDocumentProxy>(null)
+  const projectInputRef = useRef<HTMLInputElement>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const pdfDocsRef = useRef<PDFDocumentProxy[]>([])
+  // Encrypted documents are flattened on export, so their annotations are drawn by PDF.js and not edited
+  const encryptedDocsRef = useRef<boolean[]>([])
   const originalCanvasRef = useRef<HTMLCanvasElement>(null)
-
-  const applyBlurStrokes = (
-    strokes: BlurStroke[],
-    context: CanvasRenderingContext2D,
-    originalContext: CanvasRenderingContext2D,
-  ) => {
-    strokes.forEach((stroke) => {
-      const radius = stroke.size / 2
-      const tempCanvas = document.createElement("canvas")
-      const tempContext = tempCanvas.getContext("2d")
-      if (!tempContext) return
-
-      tempCanvas.width = stroke.size
-      tempCanvas.height = stroke.size
-
-      const sourceX = Math.max(0, stroke.x - radius)
-      const sourceY = Math.max(0, stroke.y - radius)
-      const sourceWidth = Math.min(stroke.size, originalContext.canvas.width - sourceX)
-      const sourceHeight = Math.min(stroke.size, originalContext.canvas.height - sourceY)
-
-      if (sourceWidth > 0 && sourceHeight > 0) {
-        tempContext.drawImage(
-          originalContext.canvas,
-          sourceX,
-          sourceY,
-          sourceWidth,
-          sourceHeight,
-          0,
-          0,
-          sourceWidth,
-          sourceHeight,
-        )
-
-        context.save()
-        context.filter = `blur(${stroke.intensity}px)`
-        context.drawImage(tempCanvas, sourceX, sourceY)
-        context.restore()
-      }
-    })
-  }
-
-  const applyEraseStrokes = (strokes: EraseStroke[], context: CanvasRenderingContext2D) => {
-    strokes.forEach((stroke) => {
-      context.save()
-      context.fillStyle = "#ffffff"
-      context.beginPath()
-      context.arc(stroke.x, stroke.y, stroke.size / 2, 0, 2 * Math.PI)
-      context.fill()
-      context.restore()
-    })
-  }
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const renderTaskRef = useRef<RenderTask>(null)
+  // Canvas pixels per page unit of the last completed render (zoom × devicePixelRatio)
+  const renderScaleRef = useRef(1)
+  const lastStrokePointRef = useRef<(Point & { size: number }) | null>(null)
+  const pageTextCacheRef = useRef(new Map<string, PageText>())
 
   const applyAllEdits = useCallback((pageNum: number) => {
     const canvas = canvasRef.current
@@ -182,80 +530,90 @@ export default function PDFEditor() {
     if (!canvas || !originalCanvas) return
 
     const context = canvas.getContext("2d")
-    const originalContext = originalCanvas.getContext("2d")
-    if (!context || !originalContext) return
+    if (!context) return
 
     // Start fresh from original
     context.clearRect(0, 0, canvas.width, canvas.height)
     context.drawImage(originalCanvas, 0, 0)
 
-    const actions = editActions[pageNum] || []
-
-    actions.forEach((action) => {
-      if (action.type === "blur") {
-        applyBlurStrokes(action.strokes as BlurStroke[], context, originalContext)
-      } else if (action.type === "erase") {
-        applyEraseStrokes(action.strokes as EraseStroke[], context)
-      }
-    })
+    applyEditActions(editActions[pageNum] || [], context, originalCanvas, renderScaleRef.current)
   }, [editActions])
 
-  const renderPage = useCallback(async (pageNum: number, pdf?: PDFDocumentProxy) => {
-    const pdfDoc = pdf || pdfDocRef.current
-    if (!pdfDoc) return
+  const getPdfPage = useCallback((entry: PageEntry) => getSourcePage(pdfDocsRef.current, entry), [])
+
+  const hasEditableAnnotations = useCallback(
+    (entry: PageEntry) => entry.source.type === "pdf" && !encryptedDocsRef.current[entry.source.documentIndex],
+    [],
+  )
+
+  const renderPage = useCallback(async (pageNum: number) => {
+    const entry = pages[pageNum - 1]
+    if (!entry) return
 
     try {
-      const page = await pdfDoc.getPage(pageNum)
+      // PDF.js refuses to render into a canvas that is still in use by a previous render
+      if (renderTaskRef.current) {
+        renderTaskRef.current.cancel()
+        await renderTaskRef.current.promise.catch(() => {})
+      }
+
+      setRenderError(null)
+      const { AnnotationMode } = await loadPdfJs()
+      const page = await getPdfPage(entry)
       const canvas = canvasRef.current
       const originalCanvas = originalCanvasRef.current
       if (!canvas || !originalCanvas) return
 
-      const context = canvas.getContext("2d")
       const originalContext = originalCanvas.getContext("2d")
-      if (!context || !originalContext) return
+      if (!originalContext) return
 
-      const viewport = page.getViewport({ scale: 1.5 })
-      canvas.height = viewport.height
-      canvas.width = viewport.width
-      originalCanvas.height = viewport.height
-      originalCanvas.width = viewport.width
+      const pageViewport = getPageViewport(page, entry, 1)
+      setPageSize((prev) =>
+        prev.width === pageViewport.width && prev.height === pageViewport.height
+          ? prev
+          : { width: pageViewport.width, height: pageViewport.height },
+      )
 
-      // Clear both canvases
-      context.clearRect(0, 0, canvas.width, canvas.height)
-      originalContext.clearRect(0, 0, originalCanvas.width, originalCanvas.height)
+      // Render at device resolution so the page stays sharp on HiDPI screens
+      const scale = zoom * (window.devicePixelRatio || 1)
+      const viewport = getPageViewport(page, entry, scale)
+      originalCanvas.width = Math.ceil(viewport.width)
+      originalCanvas.height = Math.ceil(viewport.height)
 
       // Render original to hidden canvas and wait for it to complete
-      await page.render({
+      const renderTask = page.render({
         canvasContext: originalContext,
         viewport: viewport,
-      }).promise
+        // Editable annotations are shown as overlays instead
+        annotationMode: hasEditableAnnotations(entry) ? AnnotationMode.DISABLE : AnnotationMode.ENABLE,
+      })
+      renderTaskRef.current = renderTask
+      await renderTask.promise
+      renderTaskRef.current = null
 
-      // Copy to main canvas
-      context.drawImage(originalCanvas, 0, 0)
+      canvas.width = originalCanvas.width
+      canvas.height = originalCanvas.height
+      renderScaleRef.current = scale
 
-      // Apply existing edits for this page
-      applyAllEdits(pageNum)
+      // Edits are applied by the effect watching renderedPage
+      setRenderedPage({ pageNum })
     } catch (error) {
+      if (error instanceof Error && error.name === "RenderingCancelledException") return
       console.error("Error rendering page:", error)
+      setRenderError("This page could not be displayed. The file may be damaged.")
     }
-  }, [applyAllEdits])
+  }, [zoom, pages, getPdfPage, hasEditableAnnotations])
 
   useEffect(() => {
-    // Load PDF.js
-    const script = document.createElement("script")
-    script.src = "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js"
-    script.onload = () => {
-      const pdfjsLib = window.pdfjsLib
-      if (pdfjsLib?.GlobalWorkerOptions) {
-        pdfjsLib.GlobalWorkerOptions.workerSrc =
-          "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js"
-      }
-    }
-    document.head.appendChild(script)
+    // Warm up PDF.js so the first upload does not wait for it
+    loadPdfJs().catch((error) => {
+      console.error("Error loading PDF.js:", error)
+      setLoadError("The PDF viewer could not be loaded. Reload the page to try again.")
+    })
   }, [])
 
   useEffect(() => {
-    if (isEditing && pdfDocRef.current) {
+    if (isEditing && pdfDocsRef.current.length > 0) {
       setIsLoading(true)
       renderPage(currentPage).finally(() => {
         setIsLoading(false)
@@ -263,147 +621,376 @@ export default function PDFEditor() {
     }
   }, [isEditing, currentPage, renderPage])
 
+  // Annotations and form fields already in the document, read again when the page changes or turns
+  const currentEntry = pages[currentPage - 1]
+  useEffect(() => {
+    setPageAnnotations([])
+    if (!isEditing || !currentEntry || !hasEditableAnnotations(currentEntry)) return
+
+    let isCancelled = false
+    getPdfPage(currentEntry)
+      .then((page) => readPageAnnotations(page, getPageViewport(page, currentEntry, 1)))
+      .then((annotations) => {
+        if (!isCancelled) setPageAnnotations(annotations)
+      })
+      .catch((error) => console.error("Error reading annotations:", error))
+    return () => {
+      isCancelled = true
+    }
+  }, [isEditing, currentEntry, getPdfPage, hasEditableAnnotations])
+
+  // Redraw edits on top of the rendered page whenever they change (including undo/redo)
+  useEffect(() => {
+    if (renderedPage) applyAllEdits(renderedPage.pageNum)
+  }, [renderedPage, applyAllEdits])
+
+  const zoomBy = useCallback((factor: number) => {
+    setFitMode(null)
+    setZoom((prev) => clampZoom(prev * factor))
+  }, [])
+
+  // Keep fit-to-width/page zoom levels in sync with the page and the available space
+  useEffect(() => {
+    const container = viewportRef.current
+    if (!isEditing || !fitMode || !container || !pageSize.width) return
+
+    const fit = () => {
+      // Leave room for the scrollbar so fitting does not itself cause overflow
+      const availableWidth = container.clientWidth - 16
+      const availableHeight = container.clientHeight - 16
+      const widthZoom = availableWidth / pageSize.width
+      setZoom(clampZoom(fitMode === "width" ? widthZoom : Math.min(widthZoom, availableHeight / pageSize.height)))
+    }
+
+    fit()
+    const observer = new ResizeObserver(fit)
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [isEditing, fitMode, pageSize])
+
+  // Ctrl/Cmd + wheel zooms; it needs a non-passive listener to suppress browser zoom
+  useEffect(() => {
+    const container = viewportRef.current
+    if (!isEditing || !container) return
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+      event.preventDefault()
+      zoomBy(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)
+    }
+
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [isEditing, zoomBy])
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file && file.type === "application/pdf") {
-      setPdfFile(file)
-      await loadPDF(file)
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ""
+    await selectFiles(files)
+  }
+
+  // A single PDF opens straight away; several are listed first so they can be put in order
+  const selectFiles = async (files: File[]) => {
+    const errors: string[] = []
+    const pdfs: File[] = []
+    for (const file of files) {
+      try {
+        await checkPdfFile(file)
+        pdfs.push(file)
+      } catch (error) {
+        errors.push(error instanceof PdfFileError ? error.message : `"${file.name}" could not be read.`)
+      }
     }
+    setLoadError(errors.length > 0 ? errors.join(" ") : null)
+    if (pdfs.length === 0) return
+
+    if (pdfs.length === 1 && pendingFiles.length === 0 && errors.length === 0) {
+      await openFiles(pdfs)
+    } else {
+      setPendingFiles((prev) => [...prev, ...pdfs])
+    }
+  }
+
+  const movePendingFile = (from: number, to: number) => {
+    setPendingFiles((prev) => {
+      const next = [...prev]
+      next.splice(to, 0, ...next.splice(from, 1))
+      return next
+    })
   }
 
-  const loadPDF = async (file: File) => {
-    const arrayBuffer = await file.arrayBuffer()
-    const pdfjsLib = window.pdfjsLib
-    if (!pdfjsLib?.getDocument) {
-      throw new Error("PDF.js is not loaded")
+  const openFiles = async (files: File[]) => {
+    setLoadError(null)
+    setIsOpening(true)
+    try {
+      await loadPDFs(files)
+      setPendingFiles([])
+    } catch (error) {
+      console.error("Error loading PDF:", error)
+      setLoadError(
+        error instanceof PdfFileError || error instanceof ProjectFileError
+          ? error.message
+          : files.length > 1
+            ? "One of these PDFs could not be opened. Check that the files are valid PDFs and try again."
+            : "This PDF could not be opened. Check that the file is a valid PDF and try again.",
+      )
+    } finally {
+      setIsOpening(false)
+    }
+  }
+
+  const requestPassword = (fileName: string, incorrect: boolean) =>
+    new Promise<string | null>((resolve) => setPasswordPrompt({ fileName, incorrect, resolve }))
+
+  const answerPasswordPrompt = (password: string | null) => {
+    passwordPrompt?.resolve(password)
+    setPasswordPrompt(null)
+  }
+
+  // The editor switches to the documents only once all of them have opened
+  const loadPDFs = async (files: File[]) => {
+    const hashes: string[] = []
+    const pdfs: PDFDocumentProxy[] = []
+    const encrypted: boolean[] = []
+    let hasForm = false
+    try {
+      for (const file of files) {
+        const pdf = await openPdfFile(file, (incorrect) => requestPassword(file.name, incorrect))
+        pdfs.push(pdf)
+        encrypted.push(await isPdfEncrypted(pdf))
+        // Forms of encrypted documents are flattened with the rest of their pages and cannot be filled in
+        if (!encrypted[encrypted.length - 1] && (await hasPdfForm(pdf))) hasForm = true
+        hashes.push(await hashPdf(await file.arrayBuffer()))
+      }
+    } catch (error) {
+      // The documents opened before the one that failed are not kept, so free them with their workers
+      await Promise.all(pdfs.map((pdf) => pdf.destroy()))
+      throw error
     }
-    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise
-    pdfDocRef.current = pdf
-    setTotalPages(pdf.numPages)
+
+    // The replaced documents are not read again; stop any render still using them before freeing them
+    const previousPdfs = pdfDocsRef.current
+    renderTaskRef.current?.cancel()
+    previousPdfs.forEach((pdf) => {
+      pdf.destroy().catch((error) => console.error("Error closing PDF:", error))
+    })
+    pdfDocsRef.current = pdfs
+    encryptedDocsRef.current = encrypted
+    setHasFormFields(hasForm)
+    setEditMode((mode) => (mode === "form" && !hasForm ? null : mode))
+    setPdfFiles(files)
+    setPdfHashes(hashes)
+    pageTextCacheRef.current.clear()
+    setTextHighlights({})
+    resetHistory({ ...EMPTY_EDIT_STATE, pages: createPageEntries(pdfs.map((pdf) => pdf.numPages)) })
     setCurrentPage(1)
-    await renderPage(1, pdf)
+    setRenderedPage(null)
+    setFitMode("width")
   }
 
-  const getCanvasCoordinates = (event: React.MouseEvent<HTMLCanvasElement>) => {
+  // Converts client coordinates to page units, whatever size the canvas is displayed at
+  const getPageCoordinates = (clientX: number, clientY: number) => {
     const canvas = canvasRef.current
-    if (!canvas) return { x: 0, y: 0 }
+    if (!canvas || !pageSize.width) return { x: 0, y: 0 }
 
     const rect = canvas.getBoundingClientRect()
     return {
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top,
+      x: ((clientX - rect.left) / rect.width) * pageSize.width,
+      y: ((clientY - rect.top) / rect.height) * pageSize.height,
     }
   }
 
-  const handleCanvasMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    const { x, y } = getCanvasCoordinates(event)
+  // Only pens report meaningful pressure; mice and touch always use the full brush size
+  const getPressureScale = (event: React.PointerEvent) =>
+    event.pointerType === "pen" ? MIN_PRESSURE_SCALE + (1 - MIN_PRESSURE_SCALE) * event.pressure : 1
+
+  const handleCanvasPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    // Ignore extra fingers so a second touch does not start another stroke
+    if (!event.isPrimary) return
+
+    // Keep receiving events when the pointer leaves the canvas mid-stroke
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const { x, y } = getPageCoordinates(event.clientX, event.clientY)
+
+    // Middle-click pans with any tool; with no tool selected, any drag pans
+    if (event.button === 1 || !editMode || editMode === "form") {
+      const container = viewportRef.current
+      if (!container) return
+      event.preventDefault()
+      setPanStart({
+        x: event.clientX,
+        y: event.clientY,
+        scrollLeft: container.scrollLeft,
+        scrollTop: container.scrollTop,
+      })
+      return
+    }
 
     if (editMode === "text") {
       createTextBox(x, y)
       return
     }
 
+    if (editMode === "image") {
+      placeImageStamp(x, y)
+      return
+    }
+
+    if (editMode === "markup") {
+      // A tap on a touch screen has no hover, so the drag has to start from here
+      setMousePos({ x, y })
+      if (markupTool === "pen") setPenPoints([{ x, y }])
+      else setDragStart({ x, y })
+      return
+    }
+
+    if (editMode === "redact" || selectionShape === "rectangle" || selectionShape === "ellipse") {
+      setDragStart({ x, y })
+      return
+    }
+
+    if (selectionShape === "lasso") {
+      setLassoPoints([{ x, y }])
+      return
+    }
+
     if (editMode === "blur" || editMode === "erase") {
       setIsDrawing(true)
       setCurrentStrokes([])
-      addStrokePoint(x, y)
+      lastStrokePointRef.current = null
+      addStrokePoint(x, y, getPressureScale(event))
     }
   }
 
-  const handleCanvasMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    const { x, y } = getCanvasCoordinates(event)
+  const handleCanvasPointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!event.isPrimary) return
+
+    if (panStart) {
+      const container = viewportRef.current
+      if (container) {
+        container.scrollLeft = panStart.scrollLeft - (event.clientX - panStart.x)
+        container.scrollTop = panStart.scrollTop - (event.clientY - panStart.y)
+      }
+      return
+    }
+
+    const { x, y } = getPageCoordinates(event.clientX, event.clientY)
     setMousePos({ x, y })
 
+    if (lassoPoints.length > 0) {
+      setLassoPoints((prev) => [...prev, { x, y }])
+      return
+    }
+
+    if (penPoints.length > 0) {
+      setPenPoints((prev) => [...prev, { x, y }])
+      return
+    }
+
     if (!isDrawing || !editMode) return
 
-    addStrokePoint(x, y)
+    addStrokePoint(x, y, getPressureScale(event))
   }
 
-  const handleCanvasMouseUp = () => {
-    if (isDrawing && currentStrokes.length > 0) {
-      // Save the current strokes as an edit action
-      const newAction: EditAction = {
-        type: editMode as "blur" | "erase",
-        strokes: currentStrokes,
+  const handleCanvasPointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!event.isPrimary) return
+
+    setPanStart(null)
+
+    const markup = getDraftMarkup()
+    if (markup) addEditAction(markup)
+    setPenPoints([])
+
+    if (dragStart) {
+      const rect = getDragRect(dragStart, mousePos)
+      if (rect.width > 1 && rect.height > 1 && editMode !== "markup") {
+        if (editMode === "redact") {
+          addEditAction({ type: "redact", regions: [{ ...rect, color: redactColor }] })
+        } else if (selectionShape === "rectangle" || selectionShape === "ellipse") {
+          addRegionAction({ kind: selectionShape, ...rect })
+        }
       }
+      setDragStart(null)
+    }
 
-      setEditActions((prev) => ({
-        ...prev,
-        [currentPage]: [...(prev[currentPage] || []), newAction],
-      }))
+    if (lassoPoints.length > 0) {
+      const bounds = getShapeBounds({ kind: "lasso", points: lassoPoints })
+      if (lassoPoints.length > 2 && bounds.width > 1 && bounds.height > 1) {
+        addRegionAction({ kind: "lasso", points: lassoPoints })
+      }
+      setLassoPoints([])
+    }
+
+    if (isDrawing && currentStrokes.length > 0) {
+      // Save the current strokes as an edit action
+      addEditAction(
+        editMode === "blur"
+          ? { type: "blur", strokes: currentStrokes as BlurStroke[] }
+          : { type: "erase", strokes: currentStrokes as EraseStroke[] },
+      )
     }
 
     setIsDrawing(false)
     setCurrentStrokes([])
+    lastStrokePointRef.current = null
+  }
+
+  // Markup being drawn with the current tool, or null while nothing big enough has been drawn
+  const getDraftMarkup = (): MarkupAction | null => {
+    if (editMode !== "markup") return null
+    if (markupTool === "pen") return penPoints.length > 1 ? { type: "pen", points: penPoints, ...markupStyle } : null
+    return dragStart ? createMarkup(markupTool, dragStart, mousePos, markupStyle) : null
+  }
+
+  const addEditAction = (action: EditAction) => {
+    setEditActions((prev) => ({
+      ...prev,
+      [currentPage]: [...(prev[currentPage] || []), action],
+    }))
+    commitHistory()
+  }
+
+  // The blur tool's current style with its setting
+  const getObfuscation = (): Obfuscation => {
+    if (blurStyle === "pixelate" || blurStyle === "noise") return { style: blurStyle, blockSize }
+    if (blurStyle === "fill") return { style: blurStyle, color: blurColor }
+    return { style: blurStyle, intensity: blurIntensity }
+  }
+
+  // Region selections are re-rendered through applyAllEdits, so no live canvas update is needed here
+  const addRegionAction = (shape: RegionShape) => {
+    if (editMode === "blur") {
+      addEditAction({ type: "blur-region", shape, ...getObfuscation() })
+    } else if (editMode === "erase") {
+      addEditAction({ type: "erase-region", shape })
+    }
   }
 
-  const addStrokePoint = (x: number, y: number) => {
+  const addStrokePoint = (x: number, y: number, pressureScale = 1) => {
     const canvas = canvasRef.current
     const originalCanvas = originalCanvasRef.current
     if (!canvas || !originalCanvas) return
 
     const context = canvas.getContext("2d")
-    const originalContext = originalCanvas.getContext("2d")
-    if (!context || !originalContext) return
+    if (!context) return
+
+    const point = { x, y, size: brushSize * pressureScale }
+    const lastPoint = lastStrokePointRef.current
+    const points = lastPoint ? interpolateStrokePoints(lastPoint, point) : [point]
+    lastStrokePointRef.current = point
 
+    // Apply the stroke immediately for visual feedback
     if (editMode === "blur") {
-      const newStroke: BlurStroke = {
-        x,
-        y,
-        size: brushSize,
-        intensity: blurIntensity,
-      }
+      const obfuscation = getObfuscation()
+      const newStrokes: BlurStroke[] = points.map((stroke) => ({ ...stroke, ...obfuscation }))
 
-      setCurrentStrokes((prev) => [...prev, newStroke])
-
-      // Apply blur immediately for visual feedback
-      const radius = brushSize / 2
-      const tempCanvas = document.createElement("canvas")
-      const tempContext = tempCanvas.getContext("2d")
-      if (!tempContext) return
-
-      tempCanvas.width = brushSize
-      tempCanvas.height = brushSize
-
-      const sourceX = Math.max(0, x - radius)
-      const sourceY = Math.max(0, y - radius)
-      const sourceWidth = Math.min(brushSize, originalCanvas.width - sourceX)
-      const sourceHeight = Math.min(brushSize, originalCanvas.height - sourceY)
-
-      if (sourceWidth > 0 && sourceHeight > 0) {
-        tempContext.drawImage(
-          originalCanvas,
-          sourceX,
-          sourceY,
-          sourceWidth,
-          sourceHeight,
-          0,
-          0,
-          sourceWidth,
-          sourceHeight,
-        )
-
-        context.save()
-        context.filter = `blur(${blurIntensity}px)`
-        context.drawImage(tempCanvas, sourceX, sourceY)
-        context.restore()
-      }
+      setCurrentStrokes((prev) => [...(prev as BlurStroke[]), ...newStrokes])
+      applyBlurStrokes(newStrokes, context, originalCanvas, renderScaleRef.current)
     } else if (editMode === "erase") {
-      const newStroke: EraseStroke = {
-        x,
-        y,
-        size: brushSize,
-      }
+      const newStrokes: EraseStroke[] = points
 
-      setCurrentStrokes((prev) => [...prev, newStroke])
-
-      // Apply erase immediately
-      context.save()
-      context.fillStyle = "#ffffff"
-      context.beginPath()
-      context.arc(x, y, brushSize / 2, 0, 2 * Math.PI)
-      context.fill()
-      context.restore()
+      setCurrentStrokes((prev) => [...(prev as EraseStroke[]), ...newStrokes])
+      applyEraseStrokes(newStrokes, context, renderScaleRef.current)
     }
   }
 
@@ -413,8 +1000,7 @@ export default function PDFEditor() {
       x,
       y,
       text: "",
-      fontSize,
-      color: textColor,
+      ...textStyle,
       isEditing: true,
     }
 
@@ -424,11 +1010,33 @@ export default function PDFEditor() {
     }))
   }
 
-  const updateTextBox = (id: string, updates: Partial<TextBox>) => {
-    setTextBoxes((prev) => ({
-      ...prev,
-      [currentPage]: (prev[currentPage] || []).map((box) => (box.id === id ? { ...box, ...updates } : box)),
-    }))
+  const updateTextBox = useCallback(
+    (id: string, updates: Partial<TextBox>) => {
+      setTextBoxes((prev) => ({
+        ...prev,
+        [currentPage]: (prev[currentPage] || []).map((box) => (box.id === id ? { ...box, ...updates } : box)),
+      }))
+    },
+    [currentPage, setTextBoxes],
+  )
+
+  // Style changes become the default for new boxes and also apply to the box being edited
+  const updateTextStyle = (updates: Partial<TextStyle>) => {
+    setTextStyle((prev) => ({ ...prev, ...updates }))
+    const editingBoxes = (textBoxes[currentPage] || []).filter((textBox) => textBox.isEditing)
+    editingBoxes.forEach((textBox) => updateTextBox(textBox.id, updates))
+  }
+
+  useEffect(() => {
+    if (!isEditing || textFonts) return
+    loadMeasurementFonts()
+      .then((loader) => setTextFonts(() => loader))
+      .catch((error) => console.error("Error loading fonts:", error))
+  }, [isEditing, textFonts])
+
+  const confirmTextBox = (id: string) => {
+    updateTextBox(id, { isEditing: false })
+    commitHistory()
   }
 
   const deleteTextBox = (id: string) => {
@@ -436,62 +1044,214 @@ export default function PDFEditor() {
       ...prev,
       [currentPage]: (prev[currentPage] || []).filter((box) => box.id !== id),
     }))
+    commitHistory()
   }
 
-  const handleTextBoxMouseDown = (event: React.MouseEvent, textBox: TextBox) => {
+  const handleTextBoxPointerDown = (event: React.PointerEvent<HTMLDivElement>, textBox: TextBox) => {
     event.stopPropagation()
-    if (textBox.isEditing) return
+    if (textBox.isEditing || !event.isPrimary) return
 
+    // Capture so the drag continues when the pointer moves faster than the box
+    event.currentTarget.setPointerCapture(event.pointerId)
     setDraggedTextBox(textBox.id)
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (rect) {
-      setDragOffset({
-        x: event.clientX - rect.left - textBox.x,
-        y: event.clientY - rect.top - textBox.y,
-      })
+    const { x, y } = getPageCoordinates(event.clientX, event.clientY)
+    setDragOffset({
+      x: x - textBox.x,
+      y: y - textBox.y,
+    })
+  }
+
+  const handleTextBoxPointerMove = (event: React.PointerEvent<HTMLDivElement>, textBox: TextBox) => {
+    if (draggedTextBox !== textBox.id || !event.isPrimary) return
+
+    const { x, y } = getPageCoordinates(event.clientX, event.clientY)
+    updateTextBox(textBox.id, { x: x - dragOffset.x, y: y - dragOffset.y })
+  }
+
+  const handleTextBoxPointerUp = () => {
+    if (!draggedTextBox) return
+
+    setDraggedTextBox(null)
+    commitHistory()
+  }
+
+  const addStampImage = (image: StampImage) => {
+    setStampImages((prev) => [...prev, image])
+    setActiveStampImage(image)
+    setIsSigning(false)
+  }
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      addStampImage(await loadStampImage(file))
+    } catch (error) {
+      console.error("Error loading image:", error)
+      alert(error instanceof ImageFileError ? error.message : "The image could not be loaded.")
     }
   }
 
-  const handleMouseMove = useCallback(
-    (event: MouseEvent) => {
-      if (!draggedTextBox) return
+  // New stamps are centred on the click, scaled down to a sensible size for a signature or logo
+  const placeImageStamp = (x: number, y: number) => {
+    if (!activeStampImage) return
+
+    const scale = Math.min(1, DEFAULT_STAMP_SIZE / Math.max(activeStampImage.width, activeStampImage.height))
+    const width = activeStampImage.width * scale
+    const height = activeStampImage.height * scale
+    const stamp: ImageStamp = {
+      id: Date.now().toString(),
+      x: x - width / 2,
+      y: y - height / 2,
+      width,
+      height,
+      rotation: 0,
+      src: activeStampImage.src,
+    }
 
-      const rect = canvasRef.current?.getBoundingClientRect()
-      if (rect) {
-        const newX = event.clientX - rect.left - dragOffset.x
-        const newY = event.clientY - rect.top - dragOffset.y
+    setImages((prev) => ({
+      ...prev,
+      [currentPage]: [...(prev[currentPage] || []), stamp],
+    }))
+    commitHistory()
+  }
 
-        updateTextBox(draggedTextBox, { x: newX, y: newY })
-      }
+  const updateImageStamp = (id: string, updates: Partial<ImageStamp>) => {
+    setImages((prev) => ({
+      ...prev,
+      [currentPage]: (prev[currentPage] || []).map((stamp) => (stamp.id === id ? { ...stamp, ...updates } : stamp)),
+    }))
+  }
+
+  const deleteImageStamp = (id: string) => {
+    setImages((prev) => ({
+      ...prev,
+      [currentPage]: (prev[currentPage] || []).filter((stamp) => stamp.id !== id),
+    }))
+    commitHistory()
+  }
+
+  const updateAnnotation = (id: string, updates: Omit<AnnotationEdit, "deleted">) => {
+    setAnnotationEdits((prev) => ({
+      ...prev,
+      [currentPage]: { ...prev[currentPage], [id]: { ...prev[currentPage]?.[id], ...updates } },
+    }))
+  }
+
+  const deleteAnnotation = (id: string) => {
+    setAnnotationEdits((prev) => ({
+      ...prev,
+      [currentPage]: { ...prev[currentPage], [id]: { deleted: true } },
+    }))
+    commitHistory()
+  }
+
+  const updateFormValue = (name: string, value: FormValue) => {
+    if (currentEntry?.source.type !== "pdf") return
+    const { documentIndex } = currentEntry.source
+    setFormValues((prev) => ({ ...prev, [documentIndex]: { ...prev[documentIndex], [name]: value } }))
+  }
+
+  const resetForm = () => {
+    setFormValues(() => ({}))
+    commitHistory()
+  }
+
+  // Rendering is handled by the effect watching currentPage
+  const goToPage = (pageNum: number) => {
+    if (pageNum >= 1 && pageNum <= totalPages && pageNum !== currentPage) {
+      setCurrentPage(pageNum)
+    }
+  }
+
+  const getPageText = useCallback(
+    async (pageNumber: number) => {
+      const entry = pages[pageNumber - 1]
+      // Match positions depend on the rotation, so a turned page is extracted again
+      const cacheKey = `${entry.id}@${entry.rotation}`
+      const cached = pageTextCacheRef.current.get(cacheKey)
+      if (cached) return { ...cached, pageNumber }
+
+      const page = await getPdfPage(entry)
+      const pageText = await extractPageText(page, getPageViewport(page, entry, 1))
+      pageTextCacheRef.current.set(cacheKey, pageText)
+      return { ...pageText, pageNumber }
     },
-    [draggedTextBox, dragOffset],
+    [pages, getPdfPage],
   )
 
-  const handleMouseUp = useCallback(() => {
-    setDraggedTextBox(null)
-  }, [])
+  // Where a page came from, for documents merged from several files
+  const describePage = (entry: PageEntry) =>
+    entry.source.type === "blank"
+      ? "Blank page"
+      : `${pdfFiles[entry.source.documentIndex]?.name}, page ${entry.source.pageNumber}`
 
-  useEffect(() => {
-    if (draggedTextBox) {
-      document.addEventListener("mousemove", handleMouseMove)
-      document.addEventListener("mouseup", handleMouseUp)
-      return () => {
-        document.removeEventListener("mousemove", handleMouseMove)
-        document.removeEventListener("mouseup", handleMouseUp)
-      }
-    }
-  }, [draggedTextBox, handleMouseMove, handleMouseUp])
+  const selectTextMatch = (match: TextMatch) => {
+    setSelectedMatchId(match.id)
+    goToPage(match.pageNumber)
+  }
 
-  const changePage = async (direction: "prev" | "next") => {
-    const newPage = direction === "prev" ? currentPage - 1 : currentPage + 1
-    if (newPage >= 1 && newPage <= totalPages) {
-      setIsLoading(true)
-      setCurrentPage(newPage)
-      await renderPage(newPage)
-      setIsLoading(false)
+  // Covers each match with its own region, recorded as one undo step for the whole batch
+  const applyTextMatches = (matches: TextMatch[], mode: "blur" | "erase" | "redact") => {
+    if (matches.length === 0) return
+
+    setEditActions((prev) => {
+      const next = { ...prev }
+      matches.forEach((match) => {
+        const actions: EditAction[] =
+          mode === "redact"
+            ? [{ type: "redact", regions: match.rects.map((rect) => ({ ...rect, color: redactColor })) }]
+            : match.rects.map((rect) =>
+                mode === "blur"
+                  ? { type: "blur-region", shape: { kind: "rectangle", ...rect }, ...getObfuscation() }
+                  : { type: "erase-region", shape: { kind: "rectangle", ...rect } },
+              )
+        next[match.pageNumber] = [...(next[match.pageNumber] || []), ...actions]
+      })
+      return next
+    })
+    commitHistory()
+  }
+
+  const changePage = (direction: "prev" | "next") => {
+    goToPage(direction === "prev" ? currentPage - 1 : currentPage + 1)
+  }
+
+  const handlePageInputSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const pageNum = parseInt(pageInput, 10)
+    if (Number.isNaN(pageNum)) {
+      setPageInput(String(currentPage))
+      return
     }
+    const clampedPage = Math.min(Math.max(pageNum, 1), totalPages)
+    setPageInput(String(clampedPage))
+    goToPage(clampedPage)
   }
 
+  useEffect(() => {
+    setPageInput(String(currentPage))
+  }, [currentPage])
+
+  const editedPages = useMemo(() => {
+    const pages = new Set<number>()
+    Object.entries(editActions).forEach(([page, actions]) => {
+      if (actions.length > 0) pages.add(Number(page))
+    })
+    Object.entries(textBoxes).forEach(([page, boxes]) => {
+      if (boxes.length > 0) pages.add(Number(page))
+    })
+    Object.entries(images).forEach(([page, stamps]) => {
+      if (stamps.length > 0) pages.add(Number(page))
+    })
+    Object.entries(annotationEdits).forEach(([page, edits]) => {
+      if (Object.keys(edits).length > 0) pages.add(Number(page))
+    })
+    return pages
+  }, [editActions, textBoxes, images, annotationEdits])
+
   const clearPageEdits = () => {
     setEditActions((prev) => ({
       ...prev,
@@ -501,96 +1261,391 @@ export default function PDFEditor() {
       ...prev,
       [currentPage]: [],
     }))
-    renderPage(currentPage)
+    setImages((prev) => ({
+      ...prev,
+      [currentPage]: [],
+    }))
+    setAnnotationEdits((prev) => ({
+      ...prev,
+      [currentPage]: {},
+    }))
+    commitHistory()
+  }
+
+  // Page operations move each page's edits along with it and are recorded as one undo step
+  const rearrangePages = (previousPositions: (number | null)[], insertedPage?: PageEntry) => {
+    updateEditState((state) =>
+      arrangePages(
+        state,
+        previousPositions.map((previous) => (previous === null ? insertedPage! : state.pages[previous - 1])),
+        previousPositions,
+      ),
+    )
+    commitHistory()
+  }
+
+  const pagePositions = () => pages.map((_, index) => index + 1)
+
+  const rotatePage = async (pageNum: number, clockwise: boolean) => {
+    const entry = pages[pageNum - 1]
+    const viewport = getPageViewport(await getPdfPage(entry), entry, 1)
+    const size = { width: viewport.width, height: viewport.height }
+    // Boxes are measured as the overlay lays them out; empty ones have no size yet
+    const getBoxSize = (textBox: TextBox) =>
+      textFonts && textBox.text
+        ? layoutText({ ...textBox, padding: TEXT_BOX_PADDING }, textFonts(textBox))
+        : { width: 0, height: 0 }
+
+    updateEditState((state) => ({
+      pages: state.pages.map((page, index) =>
+        index === pageNum - 1 ? { ...page, rotation: (page.rotation + (clockwise ? 90 : 270)) % 360 } : page,
+      ),
+      editActions: {
+        ...state.editActions,
+        [pageNum]: (state.editActions[pageNum] || []).map((action) => rotateEditAction(action, size, clockwise)),
+      },
+      textBoxes: {
+        ...state.textBoxes,
+        [pageNum]: (state.textBoxes[pageNum] || []).map((box) =>
+          rotateTextBox(box, getBoxSize(box), size, clockwise),
+        ),
+      },
+      images: {
+        ...state.images,
+        [pageNum]: (state.images[pageNum] || []).map((stamp) => rotateImageStamp(stamp, size, clockwise)),
+      },
+      // Annotations are read again in the turned page's coordinates, so their edits need no change
+      annotationEdits: state.annotationEdits,
+      formValues: state.formValues,
+    }))
+    commitHistory()
+  }
+
+  const deletePage = (pageNum: number) => {
+    if (totalPages <= 1) return
+    rearrangePages(pagePositions().filter((position) => position !== pageNum))
+    setCurrentPage(Math.min(pageNum, totalPages - 1))
+  }
+
+  const movePage = (from: number, to: number) => {
+    if (to < 1 || to > totalPages || from === to) return
+    const positions = pagePositions()
+    positions.splice(to - 1, 0, ...positions.splice(from - 1, 1))
+    rearrangePages(positions)
+    setCurrentPage(to)
+  }
+
+  // New pages take the size of the page they follow, as it is currently displayed
+  const insertBlankPage = (after: number) => {
+    const positions: (number | null)[] = pagePositions()
+    positions.splice(after, 0, null)
+    rearrangePages(positions, {
+      id: `blank-${Date.now()}`,
+      source: { type: "blank", width: pageSize.width, height: pageSize.height },
+      rotation: 0,
+    })
+    setCurrentPage(after + 1)
+  }
+
+  const extractPages = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const pageNumbers = parsePageRange(extractRange, totalPages)
+    if (!pageNumbers) {
+      alert(`Enter pages between 1 and ${totalPages}, for example "1-3, 5".`)
+      return
+    }
+    await downloadPDF(pageNumbers, `pages-${extractRange.replace(/\s/g, "")}.pdf`)
+  }
+
+  // Undoing a page operation can leave the current page past the end of the document
+  useEffect(() => {
+    if (totalPages > 0 && currentPage > totalPages) setCurrentPage(totalPages)
+  }, [currentPage, totalPages])
+
+  // Match positions go stale once pages move or turn, so the panels start over
+  const pageLayoutKey = useMemo(() => pages.map((page) => `${page.id}@${page.rotation}`).join(","), [pages])
+
+  useEffect(() => {
+    setTextHighlights({})
+    setSelectedMatchId(null)
+  }, [pageLayoutKey])
+
+  useEffect(() => {
+    if (!isEditing) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+
+      // Leave native undo alone while typing in a text box
+      const target = event.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [isEditing, undo, redo])
+
+  const toolSettings = useMemo<ToolSettings>(
+    () => ({
+      brushSize,
+      selectionShape,
+      blurStyle,
+      blurIntensity,
+      blockSize,
+      blurColor,
+      redactColor,
+      textStyle,
+      markupTool,
+      markupStyle,
+      piiRules: piiRuleConfig,
+    }),
+    [
+      brushSize,
+      selectionShape,
+      blurStyle,
+      blurIntensity,
+      blockSize,
+      blurColor,
+      redactColor,
+      textStyle,
+      markupTool,
+      markupStyle,
+      piiRuleConfig,
+    ],
+  )
+
+  // Checked before anything is replaced, since a bad edit would only fail once it is rendered
+  const checkProject = (project: ProjectFile) => {
+    try {
+      checkSavedEdits(project.edits as Record<string, unknown>, project.sources.map((source) => source.pageCount))
+    } catch (error) {
+      if (!(error instanceof EditSpecError)) throw error
+      throw new ProjectFileError(`The project's edits cannot be opened. ${error.message}`)
+    }
+  }
+
+  const applyProject = (project: ProjectFile) => {
+    const edits = project.edits as Partial<EditState>
+    const savedTextBoxes = edits.textBoxes ?? {}
+    resetHistory({
+      // Projects saved before pages could be rearranged use the documents' own order, and
+      // those saved before documents could be merged have no document index
+      pages: edits.pages
+        ? edits.pages.map((entry) =>
+            entry.source.type === "pdf"
+              ? { ...entry, source: { ...entry.source, documentIndex: entry.source.documentIndex ?? 0 } }
+              : entry,
+          )
+        : createPageEntries(pdfDocsRef.current.map((pdf) => pdf.numPages)),
+      editActions: edits.editActions ?? {},
+      textBoxes: Object.fromEntries(
+        Object.entries(savedTextBoxes).map(([page, boxes]) => [
+          page,
+          // Boxes saved before a style option existed pick up its default
+          boxes.map((textBox) => ({ ...DEFAULT_TEXT_STYLE, ...textBox, isEditing: false })),
+        ]),
+      ),
+      images: edits.images ?? {},
+      annotationEdits: edits.annotationEdits ?? {},
+      formValues: edits.formValues ?? {},
+    })
+
+    const settings = readToolSettings(project.settings)
+    setBrushSize(settings.brushSize)
+    setSelectionShape(settings.selectionShape)
+    setBlurStyle(settings.blurStyle)
+    setBlurIntensity(settings.blurIntensity)
+    setBlockSize(settings.blockSize)
+    setBlurColor(settings.blurColor)
+    setRedactColor(settings.redactColor)
+    setTextStyle(settings.textStyle)
+    setMarkupTool(settings.markupTool)
+    setMarkupStyle(settings.markupStyle)
+    setPiiRuleConfig(settings.piiRules)
+  }
+
+  const buildProject = useCallback((): EditorProject | null => {
+    if (pdfFiles.length === 0 || pdfHashes.length !== pdfFiles.length) return null
+    return {
+      version: PROJECT_FILE_VERSION,
+      sources: pdfFiles.map((file, index) => ({
+        name: file.name,
+        size: file.size,
+        sha256: pdfHashes[index],
+        pageCount: pdfDocsRef.current[index]?.numPages ?? 0,
+      })),
+      edits: editState,
+      settings: toolSettings,
+      savedAt: new Date().toISOString(),
+    }
+  }, [pdfFiles, pdfHashes, editState, toolSettings])
+
+  // Offer to resume the last autosaved session on the upload screen
+  useEffect(() => {
+    loadSession()
+      .then(setSavedSession)
+      .catch((error) => console.error("Error reading autosaved session:", error))
+  }, [])
+
+  useEffect(() => {
+    if (!isEditing) return
+    const project = buildProject()
+    if (!project) return
+
+    const timeout = window.setTimeout(() => {
+      const session = { files: pdfFiles, project }
+      saveSession(session)
+        .then(() => setSavedSession(session))
+        .catch((error) => console.error("Error autosaving session:", error))
+    }, AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timeout)
+  }, [isEditing, pdfFiles, buildProject])
+
+  const resumeSession = async (session: SavedSession) => {
+    setLoadError(null)
+    setIsOpening(true)
+    try {
+      checkProject(session.project)
+      await loadPDFs(session.files)
+      applyProject(session.project)
+      setIsEditing(true)
+    } catch (error) {
+      console.error("Error resuming session:", error)
+      setLoadError(
+        error instanceof PdfFileError
+          ? error.message
+          : "The saved session could not be restored. Upload the PDF again to start over.",
+      )
+    } finally {
+      setIsOpening(false)
+    }
   }
 
-  const downloadPDF = async () => {
-    if (!pdfDocRef.current || !pdfFile) return
+  // The autosave holds a copy of the original PDFs, which the user may not want left in the browser
+  const discardSession = () => {
+    clearSession()
+      .then(() => setSavedSession(null))
+      .catch((error) => console.error("Error discarding autosaved session:", error))
+  }
 
-    try {
-      // Load PDF.js script for PDF generation if not already loaded
-      if (!window.pdfjsLib?.GlobalWorkerOptions) {
-        await new Promise((resolve) => {
-          const script = document.createElement("script")
-          script.src = "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js"
-          script.onload = resolve
-          document.head.appendChild(script)
-        })
-        const pdfjsLib = window.pdfjsLib
-        if (pdfjsLib?.GlobalWorkerOptions) {
-          pdfjsLib.GlobalWorkerOptions.workerSrc =
-            "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js"
-        }
-      }
+  const saveProjectFile = () => {
+    const project = buildProject()
+    if (!project) return
 
-      // Load pdf-lib for PDF manipulation
-      if (!window.PDFLib?.PDFDocument) {
-        const pdfLibScript = document.createElement("script")
-        pdfLibScript.src = "https://unpkg.com/pdf-lib@1.17.1/dist/pdf-lib.min.js"
-        document.head.appendChild(pdfLibScript)
+    const blob = new Blob([JSON.stringify(project, null, 2)], { type: "application/json" })
+    const link = document.createElement("a")
+    link.href = URL.createObjectURL(blob)
+    link.download = `${project.sources[0].name.replace(/\.pdf$/i, "")}.pdfproject.json`
+    link.click()
+  }
 
-        await new Promise((resolve) => {
-          pdfLibScript.onload = resolve
-        })
-      }
+  const handleProjectUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
 
-      const PDFLib = window.PDFLib
-      if (!PDFLib?.PDFDocument) {
-        throw new Error("PDF-lib is not loaded")
+    try {
+      const project = parseProjectFile(await file.text())
+      if (project.sources.map((source) => source.sha256).join(",") !== documentKey) {
+        const names = project.sources.map((source) => `"${source.name}"`).join(", ")
+        const openFiles = pdfFiles.length > 1 ? "PDFs" : "PDF"
+        alert(`This project was saved for ${names}, which does not match the open ${openFiles}.`)
+        return
       }
+      checkProject(project)
+      applyProject(project)
+    } catch (error) {
+      console.error("Error opening project:", error)
+      alert(error instanceof ProjectFileError ? error.message : "The project file could not be opened.")
+    }
+  }
 
-      // Create a new PDF document
-      const pdfDoc = await PDFLib.PDFDocument.create()
+  // Pages whose edits can be repeated on other files as a batch template
+  const templatePages = useMemo(
+    () =>
+      pages.flatMap((_, index) => {
+        const pageNumber = index + 1
+        const actionCount = (editActions[pageNumber] || []).length
+        const textBoxCount = (textBoxes[pageNumber] || []).filter((textBox) => textBox.text.trim()).length
+        if (actionCount === 0 && textBoxCount === 0) return []
+
+        const description = [
+          actionCount > 0 && `${actionCount} edit${actionCount === 1 ? "" : "s"}`,
+          textBoxCount > 0 && `${textBoxCount} text box${textBoxCount === 1 ? "" : "es"}`,
+        ]
+        return [{ pageNumber, description: description.filter(Boolean).join(", ") }]
+      }),
+    [pages, editActions, textBoxes],
+  )
 
-      // Process each page
-      for (let i = 1; i <= totalPages; i++) {
-        // Switch to the page and render it with edits
-        await renderPage(i)
+  // Applies the template pages to each file on its own and downloads the results as a ZIP
+  const runBatch = async (
+    files: File[],
+    rules: { [pageNumber: number]: PageRule },
+    onResult: (result: BatchResult) => void,
+  ) => {
+    const template = templatePages.map(({ pageNumber }) => ({
+      pageNumber,
+      applyTo: rules[pageNumber] ?? "same",
+      edits: { actions: editActions[pageNumber] || [], textBoxes: textBoxes[pageNumber] || [] },
+    }))
 
-        // Render text boxes to canvas
-        const canvas = canvasRef.current
-        if (!canvas) continue
+    const zip = await processBatch(
+      files,
+      async (file) => {
+        // Password-protected files are reported as failures rather than prompting once per file
+        const pdf = await openPdfFile(file, async () => null)
+        try {
+          const pageEditActions: EditState["editActions"] = {}
+          const pageTextBoxes: EditState["textBoxes"] = {}
+          for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const edits = getTemplateEdits(template, pageNumber, pdf.numPages)
+            pageEditActions[pageNumber] = edits.flatMap((page) => page.actions)
+            pageTextBoxes[pageNumber] = edits.flatMap((page) => page.textBoxes)
+          }
+          const state: EditState = {
+            ...EMPTY_EDIT_STATE,
+            pages: createPageEntries([pdf.numPages]),
+            editActions: pageEditActions,
+            textBoxes: pageTextBoxes,
+          }
+          return await exportDocument([file], [pdf], state, { mode: "flatten", flattenForm: false })
+        } finally {
+          await pdf.destroy()
+        }
+      },
+      onResult,
+    )
+    if (!zip) return
 
-        const context = canvas.getContext("2d")
-        if (!context) continue
+    const link = document.createElement("a")
+    link.href = URL.createObjectURL(zip)
+    link.download = "processed-pdfs.zip"
+    link.click()
+  }
 
-        const currentTextBoxes = textBoxes[i] || []
-        currentTextBoxes.forEach((textBox) => {
-          if (textBox.text.trim()) {
-            context.fillStyle = textBox.color
-            context.font = `${textBox.fontSize}px Arial`
-            context.fillText(textBox.text, textBox.x, textBox.y)
-          }
-        })
-
-        // Convert canvas to image
-        const imageData = canvas.toDataURL("image/png")
-        const pngImage = await pdfDoc.embedPng(imageData)
-
-        // Add a new page to the PDF
-        const page = pdfDoc.addPage([canvas.width, canvas.height])
-
-        // Draw the image on the page
-        page.drawImage(pngImage, {
-          x: 0,
-          y: 0,
-          width: canvas.width,
-          height: canvas.height,
-        })
-      }
+  // Exports every page, or only the given page numbers
+  const downloadPDF = async (pageNumbers?: number[], fileName = "edited-pdf.pdf", mode: ExportMode = "flatten") => {
+    if (pdfFiles.length === 0) return
 
-      // Save the PDF
-      const pdfBytes = await pdfDoc.save()
+    try {
+      const pdfBytes = await exportDocument(pdfFiles, pdfDocsRef.current, editState, { mode, flattenForm, pageNumbers })
 
       // Create a blob and download
       const blob = new Blob([pdfBytes], { type: "application/pdf" })
       const link = document.createElement("a")
       link.href = URL.createObjectURL(blob)
-      link.download = "edited-pdf.pdf"
+      link.download = fileName
       link.click()
-
-      // Return to the current page
-      renderPage(currentPage)
     } catch (error) {
       console.error("Error generating PDF:", error)
       alert("There was an error generating the PDF. Downloading current page as image instead.")
@@ -606,26 +1661,158 @@ export default function PDFEditor() {
     }
   }
 
-  if (!pdfFile) {
+  // Exports every page, or only the given page numbers, as images: zipped, or as one TIFF
+  const downloadImages = async (pageNumbers: number[] | undefined, { format, dpi, quality }: ExportSettings) => {
+    if (pdfFiles.length === 0 || format === "pdf") return
+
+    try {
+      // The images are rendered from the flattened export, so they show every edit as the PDF would
+      const pdfBytes = await exportDocument(pdfFiles, pdfDocsRef.current, editState, {
+        mode: "flatten",
+        flattenForm: true,
+        pageNumbers,
+      })
+      // Exported pages keep their order in the document, whatever order the range gave them in
+      const exportedPages = pageNumbers ? [...pageNumbers].sort((a, b) => a - b) : pages.map((_, index) => index + 1)
+      const blob = await exportImages(pdfBytes, { format, dpi, quality: quality / 100, pageNumbers: exportedPages })
+
+      const link = document.createElement("a")
+      link.href = URL.createObjectURL(blob)
+      link.download = format === "tiff" ? "edited-pdf.tiff" : "edited-pdf-images.zip"
+      link.click()
+    } catch (error) {
+      console.error("Error exporting images:", error)
+      alert(error instanceof ImageExportError ? error.message : "There was an error exporting the pages as images.")
+    }
+  }
+
+  if (pdfFiles.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
         <Card className="w-full max-w-md">
           <CardContent className="p-8 text-center">
             <div className="mb-6">
-              <Upload className="w-16 h-16 mx-auto text-blue-500 mb-4" />
               <h1 className="text-2xl font-bold text-gray-900 mb-2">PDF Editor</h1>
               <p className="text-gray-600">Upload a PDF file to start editing</p>
             </div>
 
             <div className="space-y-4">
-              <Button onClick={() => fileInputRef.current?.click()} className="w-full" size="lg">
-                <Upload className="w-4 h-4 mr-2" />
-                Choose PDF File
-              </Button>
+              {passwordPrompt ? (
+                <PasswordPrompt
+                  fileName={passwordPrompt.fileName}
+                  incorrect={passwordPrompt.incorrect}
+                  onSubmit={answerPasswordPrompt}
+                  onCancel={() => answerPasswordPrompt(null)}
+                />
+              ) : (
+                <FileDropZone onFiles={selectFiles} disabled={isOpening} className="p-6">
+                  <Upload className="w-12 h-12 mx-auto text-blue-500 mb-3" />
+                  <p className="text-sm text-gray-600 mb-3">{isOpening ? "Opening..." : "Drop PDF files here, or"}</p>
+                  <Button
+                    variant={pendingFiles.length > 0 ? "outline" : "default"}
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isOpening}
+                    className="w-full"
+                    size="lg"
+                  >
+                    {pendingFiles.length > 0 ? "Add PDF Files" : "Choose PDF Files"}
+                  </Button>
+                </FileDropZone>
+              )}
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf"
+                multiple
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+
+              <p className="text-sm text-gray-500">
+                PDF files up to {MAX_PDF_SIZE / (1024 * 1024)} MB. Choose several to merge them.
+              </p>
+
+              {pendingFiles.length > 0 && (
+                <div className="space-y-2 text-left">
+                  <p className="text-sm font-medium text-gray-700">Merge in this order</p>
+                  <ol className="space-y-1">
+                    {pendingFiles.map((file, index) => (
+                      <li key={index} className="flex items-center gap-1 rounded-md border px-2 py-1 text-sm">
+                        <span className="w-5 text-gray-500">{index + 1}.</span>
+                        <span className="flex-1 truncate" title={file.name}>
+                          {file.name}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => movePendingFile(index, index - 1)}
+                          disabled={index === 0}
+                          aria-label={`Move ${file.name} up`}
+                        >
+                          <ArrowUp className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => movePendingFile(index, index + 1)}
+                          disabled={index === pendingFiles.length - 1}
+                          aria-label={`Move ${file.name} down`}
+                        >
+                          <ArrowDown className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setPendingFiles((prev) => prev.filter((_, i) => i !== index))}
+                          aria-label={`Remove ${file.name}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ol>
+                  <Button onClick={() => openFiles(pendingFiles)} disabled={isOpening} className="w-full" size="lg">
+                    <Combine className="w-4 h-4 mr-2" />
+                    {pendingFiles.length > 1 ? `Merge ${pendingFiles.length} PDFs` : "Open PDF"}
+                  </Button>
+                </div>
+              )}
 
-              <input ref={fileInputRef} type="file" accept=".pdf" onChange={handleFileUpload} className="hidden" />
+              {savedSession && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => resumeSession(savedSession)}
+                    disabled={isOpening}
+                    className="flex-1 min-w-0"
+                  >
+                    <History className="w-4 h-4 mr-2" />
+                    <span className="truncate">
+                      Resume {savedSession.project.sources.map((source) => source.name).join(", ")}
+                    </span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={discardSession}
+                    disabled={isOpening}
+                    title="Discard saved session"
+                    aria-label="Discard saved session"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
 
-              <p className="text-sm text-gray-500">Supported format: PDF files only</p>
+              {loadError && (
+                <p role="alert" className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+                  {loadError}
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -641,7 +1828,9 @@ export default function PDFEditor() {
             <div className="mb-6">
               <Edit3 className="w-16 h-16 mx-auto text-green-500 mb-4" />
               <h1 className="text-2xl font-bold text-gray-900 mb-2">PDF Uploaded Successfully</h1>
-              <p className="text-gray-600 mb-4">File: {pdfFile.name}</p>
+              <p className="text-gray-600 mb-4">
+                {pdfFiles.length > 1 ? "Files" : "File"}: {pdfFiles.map((file) => file.name).join(", ")}
+              </p>
               <p className="text-sm text-gray-500">Pages: {totalPages}</p>
             </div>
 
@@ -654,10 +1843,9 @@ export default function PDFEditor() {
               <Button
                 variant="outline"
                 onClick={() => {
-                  setPdfFile(null)
+                  setPdfFiles([])
                   setIsEditing(false)
-                  setEditActions({})
-                  setTextBoxes({})
+                  resetHistory(EMPTY_EDIT_STATE)
                 }}
                 className="w-full"
               >
@@ -670,26 +1858,73 @@ export default function PDFEditor() {
     )
   }
 
+  const dragPreview = dragStart ? getDragRect(dragStart, mousePos) : null
+  const isBrushTool = editMode === "blur" || editMode === "erase"
+  const draftMarkup = getDraftMarkup()
+
   return (
     <div className="min-h-screen bg-gray-50">
+      {isBatchDialogOpen && (
+        <BatchDialog templatePages={templatePages} onRun={runBatch} onClose={() => setIsBatchDialogOpen(false)} />
+      )}
+
+      {isExportDialogOpen && (
+        <ExportDialog
+          settings={exportSettings}
+          onSettingsChange={setExportSettings}
+          pageCount={totalPages}
+          editedPages={Array.from(editedPages).sort((a, b) => a - b)}
+          flattenForm={hasFormFields ? flattenForm : undefined}
+          onFlattenFormChange={setFlattenForm}
+          onExport={async (pageNumbers) => {
+            setIsExportDialogOpen(false)
+            setIsLoading(true)
+            if (exportSettings.format === "pdf") {
+              await downloadPDF(pageNumbers, undefined, exportSettings.mode)
+            } else {
+              await downloadImages(pageNumbers, exportSettings)
+            }
+            setIsLoading(false)
+          }}
+          onCancel={() => setIsExportDialogOpen(false)}
+        />
+      )}
+
       {/* Header */}
       <div className="bg-white border-b border-gray-200 p-4">
         <div className="max-w-7xl mx-auto flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <h1 className="text-xl font-semibold text-gray-900">PDF Editor</h1>
-            <span className="text-sm text-gray-500">{pdfFile.name}</span>
+            <span className="text-sm text-gray-500">
+              {pdfFiles.length > 1 ? `${pdfFiles[0].name} + ${pdfFiles.length - 1} more` : pdfFiles[0].name}
+            </span>
           </div>
 
           <div className="flex items-center space-x-2">
             <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
               Back to Upload
             </Button>
+            <Button variant="outline" size="sm" onClick={() => projectInputRef.current?.click()}>
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Open Project
+            </Button>
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleProjectUpload}
+              className="hidden"
+            />
+            <Button variant="outline" size="sm" onClick={saveProjectFile}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Project
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsBatchDialogOpen(true)}>
+              <FileStack className="w-4 h-4 mr-2" />
+              Batch
+            </Button>
             <Button
-              onClick={async () => {
-                setIsLoading(true)
-                await downloadPDF()
-                setIsLoading(false)
-              }}
+              onClick={() => setIsExportDialogOpen(true)}
               size="sm"
               disabled={isLoading}
             >
@@ -701,7 +1936,7 @@ export default function PDFEditor() {
               ) : (
                 <>
                   <Download className="w-4 h-4 mr-2" />
-                  Download PDF
+                  Download
                 </>
               )}
             </Button>
@@ -735,6 +1970,24 @@ export default function PDFEditor() {
                   Eraser Brush
                 </Button>
 
+                <Button
+                  variant={editMode === "redact" ? "default" : "outline"}
+                  onClick={() => setEditMode(editMode === "redact" ? null : "redact")}
+                  className="w-full justify-start"
+                >
+                  <SquareDashed className="w-4 h-4 mr-2" />
+                  Redact
+                </Button>
+
+                <Button
+                  variant={editMode === "markup" ? "default" : "outline"}
+                  onClick={() => setEditMode(editMode === "markup" ? null : "markup")}
+                  className="w-full justify-start"
+                >
+                  <Shapes className="w-4 h-4 mr-2" />
+                  Markup
+                </Button>
+
                 <Button
                   variant={editMode === "text" ? "default" : "outline"}
                   onClick={() => setEditMode(editMode === "text" ? null : "text")}
@@ -743,27 +1996,91 @@ export default function PDFEditor() {
                   <Type className="w-4 h-4 mr-2" />
                   Add Text
                 </Button>
+
+                <Button
+                  variant={editMode === "image" ? "default" : "outline"}
+                  onClick={() => setEditMode(editMode === "image" ? null : "image")}
+                  className="w-full justify-start"
+                >
+                  <Stamp className="w-4 h-4 mr-2" />
+                  Image or Signature
+                </Button>
+
+                {hasFormFields && (
+                  <Button
+                    variant={editMode === "form" ? "default" : "outline"}
+                    onClick={() => setEditMode(editMode === "form" ? null : "form")}
+                    className="w-full justify-start"
+                  >
+                    <FormInput className="w-4 h-4 mr-2" />
+                    Fill Form
+                  </Button>
+                )}
               </div>
 
               <Separator className="my-4" />
 
               {/* Brush Options */}
-              {(editMode === "blur" || editMode === "erase") && (
+              {isBrushTool && (
                 <div className="space-y-3">
                   <div>
-                    <Label className="text-sm">Brush Size</Label>
-                    <Slider
-                      value={[brushSize]}
-                      onValueChange={(value) => setBrushSize(value[0])}
-                      max={50}
-                      min={5}
-                      step={5}
-                      className="mt-2"
-                    />
-                    <span className="text-xs text-gray-500">{brushSize}px</span>
+                    <Label className="text-sm">Selection</Label>
+                    <div className="grid grid-cols-4 gap-1 mt-2">
+                      {SELECTION_SHAPES.map(({ shape, label, icon: Icon }) => (
+                        <Button
+                          key={shape}
+                          variant={selectionShape === shape ? "default" : "outline"}
+                          size="icon"
+                          onClick={() => setSelectionShape(shape)}
+                          title={label}
+                          aria-label={label}
+                          aria-pressed={selectionShape === shape}
+                          className="w-full"
+                        >
+                          <Icon className="w-4 h-4" />
+                        </Button>
+                      ))}
+                    </div>
                   </div>
 
+                  {selectionShape === "freehand" && (
+                    <div>
+                      <Label className="text-sm">Brush Size</Label>
+                      <Slider
+                        value={[brushSize]}
+                        onValueChange={(value) => setBrushSize(value[0])}
+                        max={50}
+                        min={5}
+                        step={5}
+                        className="mt-2"
+                      />
+                      <span className="text-xs text-gray-500">{brushSize}pt</span>
+                    </div>
+                  )}
+
                   {editMode === "blur" && (
+                    <div>
+                      <Label className="text-sm">Style</Label>
+                      <div className="grid grid-cols-4 gap-1 mt-2">
+                        {OBFUSCATION_STYLES.map(({ style, label, icon: Icon }) => (
+                          <Button
+                            key={style}
+                            variant={blurStyle === style ? "default" : "outline"}
+                            size="icon"
+                            onClick={() => setBlurStyle(style)}
+                            title={label}
+                            aria-label={label}
+                            aria-pressed={blurStyle === style}
+                            className="w-full"
+                          >
+                            <Icon className="w-4 h-4" />
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {editMode === "blur" && blurStyle === "blur" && (
                     <div>
                       <Label className="text-sm">Blur Intensity</Label>
                       <Slider
@@ -774,185 +2091,828 @@ export default function PDFEditor() {
                         step={1}
                         className="mt-2"
                       />
-                      <span className="text-xs text-gray-500">{blurIntensity}px</span>
+                      <span className="text-xs text-gray-500">{blurIntensity}pt</span>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Light blur can leave small text readable; pixelate, noise or a solid fill hide it completely.
+                        The text under the blur is removed from the download, so it cannot be copied.
+                      </p>
+                    </div>
+                  )}
+
+                  {editMode === "blur" && (blurStyle === "pixelate" || blurStyle === "noise") && (
+                    <div>
+                      <Label className="text-sm">Block Size</Label>
+                      <Slider
+                        value={[blockSize]}
+                        onValueChange={(value) => setBlockSize(value[0])}
+                        max={24}
+                        min={2}
+                        step={1}
+                        className="mt-2"
+                      />
+                      <span className="text-xs text-gray-500">{blockSize}pt</span>
+                    </div>
+                  )}
+
+                  {editMode === "blur" && blurStyle === "fill" && (
+                    <div>
+                      <Label className="text-sm">Fill Color</Label>
+                      <Input
+                        type="color"
+                        value={blurColor}
+                        onChange={(e) => setBlurColor(e.target.value)}
+                        className="mt-1 h-8"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Redaction Options */}
+              {editMode === "redact" && (
+                <div className="space-y-3">
+                  <div>
+                    <Label className="text-sm">Fill Color</Label>
+                    <Input
+                      type="color"
+                      value={redactColor}
+                      onChange={(e) => setRedactColor(e.target.value)}
+                      className="mt-1 h-8"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Redacted pages are flattened on download, so covered text and images cannot be recovered.
+                  </p>
+                </div>
+              )}
+
+              {/* Markup Options */}
+              {editMode === "markup" && (
+                <div className="space-y-3">
+                  <div>
+                    <Label className="text-sm">Tool</Label>
+                    <div className="grid grid-cols-4 gap-1 mt-2">
+                      {MARKUP_TOOLS.map(({ tool, label, icon: Icon }) => (
+                        <Button
+                          key={tool}
+                          variant={markupTool === tool ? "default" : "outline"}
+                          size="icon"
+                          onClick={() => setMarkupTool(tool)}
+                          title={label}
+                          aria-label={label}
+                          aria-pressed={markupTool === tool}
+                          className="w-full"
+                        >
+                          <Icon className="w-4 h-4" />
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label className="text-sm">Color</Label>
+                    <div className="flex items-center gap-2 mt-2">
+                      {MARKUP_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => setMarkupStyle((prev) => ({ ...prev, color }))}
+                          className={`h-6 w-6 rounded-full border-2 ${markupStyle.color === color ? "border-blue-500" : "border-transparent"}`}
+                          style={{ backgroundColor: color }}
+                          title={color}
+                          aria-label={`Color ${color}`}
+                          aria-pressed={markupStyle.color === color}
+                        />
+                      ))}
+                      <Input
+                        type="color"
+                        value={markupStyle.color}
+                        onChange={(e) => setMarkupStyle((prev) => ({ ...prev, color: e.target.value }))}
+                        className="h-8 flex-1"
+                        aria-label="Custom color"
+                      />
+                    </div>
+                  </div>
+
+                  {markupTool !== "highlight" && (
+                    <div>
+                      <Label className="text-sm">Line Width</Label>
+                      <Slider
+                        value={[markupStyle.strokeWidth]}
+                        onValueChange={(value) => setMarkupStyle((prev) => ({ ...prev, strokeWidth: value[0] }))}
+                        max={12}
+                        min={1}
+                        step={1}
+                        className="mt-2"
+                      />
+                      <span className="text-xs text-gray-500">{markupStyle.strokeWidth}pt</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Form Options */}
+              {editMode === "form" && (
+                <div className="space-y-3">
+                  <p className="text-xs text-gray-500">
+                    Fields with the same name share their value across pages. Choose whether to flatten the form
+                    when downloading.
+                  </p>
+                  <Button
+                    variant="outline"
+                    onClick={resetForm}
+                    disabled={Object.keys(formValues).length === 0}
+                    className="w-full"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reset Form
+                  </Button>
+                </div>
+              )}
+
+              {/* Image Options */}
+              {editMode === "image" && (
+                <div className="space-y-3">
+                  {stampImages.length > 0 && (
+                    <div>
+                      <Label className="text-sm">Stamp</Label>
+                      <div className="grid grid-cols-3 gap-1 mt-2">
+                        {stampImages.map((image, index) => (
+                          <button
+                            key={index}
+                            type="button"
+                            onClick={() => setActiveStampImage(image)}
+                            className={`flex h-14 items-center justify-center rounded-md border-2 bg-white p-1 ${activeStampImage === image ? "border-blue-500" : "border-gray-200 hover:border-gray-300"}`}
+                            title={image.name}
+                            aria-label={image.name}
+                            aria-pressed={activeStampImage === image}
+                          >
+                            {/* eslint-disable-next-line @next/next/no-img-element -- data URLs cannot go through next/image */}
+                            <img src={image.src} alt="" className="max-h-full max-w-full" />
+                          </button>
+                        ))}
+                      </div>
                     </div>
                   )}
+
+                  {isSigning ? (
+                    <SignaturePad onSave={addStampImage} onCancel={() => setIsSigning(false)} />
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button variant="outline" size="sm" onClick={() => imageInputRef.current?.click()}>
+                        <ImagePlus className="w-4 h-4 mr-1" />
+                        Upload
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setIsSigning(true)}>
+                        <Signature className="w-4 h-4 mr-1" />
+                        Sign
+                      </Button>
+                    </div>
+                  )}
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept={STAMP_IMAGE_TYPES.join(",")}
+                    onChange={handleImageUpload}
+                    className="hidden"
+                  />
+                  <p className="text-xs text-gray-500">PNG, JPEG or SVG. Images are embedded as-is in the download.</p>
                 </div>
               )}
 
               {/* Text Options */}
               {editMode === "text" && (
                 <div className="space-y-3">
+                  <div>
+                    <Label className="text-sm">Font</Label>
+                    <div className="grid grid-cols-3 gap-1 mt-2">
+                      {FONT_FAMILIES.map((family) => (
+                        <Button
+                          key={family.value}
+                          variant={textStyle.fontFamily === family.value ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => updateTextStyle({ fontFamily: family.value })}
+                          style={{ fontFamily: family.css }}
+                        >
+                          {family.label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex justify-between">
+                    <div className="flex gap-1">
+                      {TEXT_DECORATIONS.map(({ key, label, icon: Icon }) => (
+                        <Button
+                          key={key}
+                          variant={textStyle[key] ? "default" : "outline"}
+                          size="icon"
+                          onClick={() => updateTextStyle({ [key]: !textStyle[key] })}
+                          title={label}
+                          aria-label={label}
+                          aria-pressed={textStyle[key]}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1">
+                      {TEXT_ALIGNMENTS.map(({ align, label, icon: Icon }) => (
+                        <Button
+                          key={align}
+                          variant={textStyle.align === align ? "default" : "outline"}
+                          size="icon"
+                          onClick={() => updateTextStyle({ align })}
+                          title={label}
+                          aria-label={label}
+                          aria-pressed={textStyle.align === align}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
                   <div>
                     <Label className="text-sm">Font Size</Label>
                     <Slider
-                      value={[fontSize]}
-                      onValueChange={(value) => setFontSize(value[0])}
+                      value={[textStyle.fontSize]}
+                      onValueChange={(value) => updateTextStyle({ fontSize: value[0] })}
                       max={48}
                       min={8}
                       step={2}
                       className="mt-2"
                     />
-                    <span className="text-xs text-gray-500">{fontSize}px</span>
+                    <span className="text-xs text-gray-500">{textStyle.fontSize}pt</span>
+                  </div>
+
+                  <div>
+                    <Label className="text-sm">Line Height</Label>
+                    <Slider
+                      value={[textStyle.lineHeight]}
+                      onValueChange={(value) => updateTextStyle({ lineHeight: value[0] })}
+                      max={3}
+                      min={1}
+                      step={0.1}
+                      className="mt-2"
+                    />
+                    <span className="text-xs text-gray-500">{textStyle.lineHeight.toFixed(1)}×</span>
+                  </div>
+
+                  <div>
+                    <Label className="text-sm">Box Width</Label>
+                    <Slider
+                      value={[textStyle.width ?? 0]}
+                      onValueChange={(value) => updateTextStyle({ width: value[0] || null })}
+                      max={600}
+                      min={0}
+                      step={10}
+                      className="mt-2"
+                    />
+                    <span className="text-xs text-gray-500">
+                      {textStyle.width ? `${textStyle.width}pt, wraps text` : "Auto, no wrapping"}
+                    </span>
                   </div>
 
                   <div>
                     <Label className="text-sm">Text Color</Label>
                     <Input
                       type="color"
-                      value={textColor}
-                      onChange={(e) => setTextColor(e.target.value)}
+                      value={textStyle.color}
+                      onChange={(e) => updateTextStyle({ color: e.target.value })}
                       className="mt-1 h-8"
                     />
                   </div>
+
+                  <div>
+                    <Label className="text-sm">Opacity</Label>
+                    <Slider
+                      value={[Math.round(textStyle.opacity * 100)]}
+                      onValueChange={(value) => updateTextStyle({ opacity: value[0] / 100 })}
+                      max={100}
+                      min={10}
+                      step={5}
+                      className="mt-2"
+                    />
+                    <span className="text-xs text-gray-500">{Math.round(textStyle.opacity * 100)}%</span>
+                  </div>
+
+                  <div>
+                    <Label className="text-sm">Background</Label>
+                    <div className="flex gap-2 mt-1">
+                      <Button
+                        variant={textStyle.backgroundColor ? "default" : "outline"}
+                        size="icon"
+                        onClick={() => updateTextStyle({ backgroundColor: textStyle.backgroundColor ? null : "#ffffff" })}
+                        title="Fill background"
+                        aria-label="Fill background"
+                        aria-pressed={Boolean(textStyle.backgroundColor)}
+                      >
+                        <PaintBucket className="w-4 h-4" />
+                      </Button>
+                      <Input
+                        type="color"
+                        value={textStyle.backgroundColor ?? "#ffffff"}
+                        onChange={(e) => updateTextStyle({ backgroundColor: e.target.value })}
+                        disabled={!textStyle.backgroundColor}
+                        className="h-9"
+                      />
+                    </div>
+                  </div>
                 </div>
               )}
 
               <Separator className="my-4" />
 
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                <Button variant="outline" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Undo
+                </Button>
+                <Button variant="outline" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                  <Redo2 className="w-4 h-4 mr-2" />
+                  Redo
+                </Button>
+              </div>
+
               <Button variant="outline" onClick={clearPageEdits} className="w-full">
                 <RotateCcw className="w-4 h-4 mr-2" />
                 Clear Page Edits
               </Button>
             </CardContent>
           </Card>
+
+          <Card className="mt-6">
+            <CardContent className="p-4">
+              <TextSearchPanel
+                key={`${documentKey}:${pageLayoutKey}`}
+                pageCount={totalPages}
+                getPageText={getPageText}
+                onMatchesChange={(matches) => setTextHighlights((prev) => ({ ...prev, search: matches }))}
+                onSelectMatch={selectTextMatch}
+                onApply={applyTextMatches}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6">
+            <CardContent className="p-4">
+              <PiiScannerPanel
+                key={`${documentKey}:${pageLayoutKey}`}
+                pageCount={totalPages}
+                getPageText={getPageText}
+                config={piiRuleConfig}
+                onConfigChange={setPiiRuleConfig}
+                onMatchesChange={(matches) => setTextHighlights((prev) => ({ ...prev, pii: matches }))}
+                onSelectMatch={selectTextMatch}
+                onAccept={applyTextMatches}
+              />
+            </CardContent>
+          </Card>
         </div>
 
         {/* PDF Viewer */}
         <div className="lg:col-span-3">
           <Card>
-            <CardContent className="p-4">
-              {/* Page Navigation */}
-              <div className="flex items-center justify-between mb-4">
-                <Button variant="outline" size="sm" onClick={() => changePage("prev")} disabled={currentPage <= 1}>
-                  <ChevronLeft className="w-4 h-4" />
-                  Previous
-                </Button>
-
-                <span className="text-sm text-gray-600">
-                  Page {currentPage} of {totalPages}
-                </span>
-
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => changePage("next")}
-                  disabled={currentPage >= totalPages}
-                >
-                  Next
-                  <ChevronRight className="w-4 h-4" />
-                </Button>
-              </div>
-
-              {/* Canvas Container */}
-              <div className="border border-gray-300 rounded-lg overflow-auto bg-white relative">
-                <canvas
-                  ref={canvasRef}
-                  onMouseDown={handleCanvasMouseDown}
-                  onMouseMove={handleCanvasMouseMove}
-                  onMouseUp={handleCanvasMouseUp}
-                  onMouseLeave={handleCanvasMouseUp}
-                  className={`max-w-full h-auto ${editMode === "blur" || editMode === "erase"
-                    ? "cursor-none"
-                    : editMode === "text"
-                      ? "cursor-text"
-                      : "cursor-default"
-                    }`}
+            <CardContent className="p-4 flex gap-4">
+              {/* Page Thumbnails */}
+              {pdfDocsRef.current.length > 0 && (
+                <PageThumbnails
+                  key={documentKey}
+                  pages={pages}
+                  getPage={getPdfPage}
+                  getPageLabel={pdfFiles.length > 1 ? describePage : undefined}
+                  currentPage={currentPage}
+                  editedPages={editedPages}
+                  onSelectPage={goToPage}
+                  onMovePage={movePage}
+                  className="hidden md:block w-32 shrink-0 max-h-[calc(100vh-10rem)]"
                 />
+              )}
 
-                {/* Hidden canvas for original content */}
-                <canvas ref={originalCanvasRef} className="hidden" />
+              <div className="flex-1 min-w-0">
+                {/* Page Navigation */}
+                <div className="flex items-center justify-between mb-4">
+                  <Button variant="outline" size="sm" onClick={() => changePage("prev")} disabled={currentPage <= 1}>
+                    <ChevronLeft className="w-4 h-4" />
+                    Previous
+                  </Button>
+
+                  <form onSubmit={handlePageInputSubmit} className="flex items-center space-x-2 text-sm text-gray-600">
+                    <Label htmlFor="page-input" className="font-normal">
+                      Page
+                    </Label>
+                    <Input
+                      id="page-input"
+                      type="number"
+                      min={1}
+                      max={totalPages}
+                      value={pageInput}
+                      onChange={(e) => setPageInput(e.target.value)}
+                      onBlur={() => setPageInput(String(currentPage))}
+                      className="h-8 w-16 text-center"
+                    />
+                    <span>of {totalPages}</span>
+                  </form>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => changePage("next")}
+                    disabled={currentPage >= totalPages}
+                  >
+                    Next
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
 
-                {/* Loading overlay */}
-                {isLoading && (
-                  <div className="absolute inset-0 bg-white bg-opacity-70 flex items-center justify-center">
-                    <div className="text-center">
-                      <div className="inline-block animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
-                      <p className="text-blue-600 font-medium">Loading...</p>
-                    </div>
-                  </div>
+                {pdfFiles.length > 1 && pages[currentPage - 1] && (
+                  <p className="-mt-2 mb-4 text-center text-xs text-gray-500">{describePage(pages[currentPage - 1])}</p>
                 )}
 
-                {/* Text Boxes */}
-                {(textBoxes[currentPage] || []).map((textBox) => (
+                {/* Page Operations */}
+                <div className="flex flex-wrap items-center justify-center gap-2 mb-4">
+                  <Button variant="outline" size="sm" onClick={() => rotatePage(currentPage, false)} title="Rotate left">
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => rotatePage(currentPage, true)} title="Rotate right">
+                    <RotateCw className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => movePage(currentPage, currentPage - 1)}
+                    disabled={currentPage <= 1}
+                    title="Move page up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => movePage(currentPage, currentPage + 1)}
+                    disabled={currentPage >= totalPages}
+                    title="Move page down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => insertBlankPage(currentPage)}
+                    title="Insert blank page after"
+                  >
+                    <FilePlus className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deletePage(currentPage)}
+                    disabled={totalPages <= 1}
+                    title="Delete page"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <form onSubmit={extractPages} className="flex items-center gap-1">
+                    <Input
+                      value={extractRange}
+                      onChange={(e) => setExtractRange(e.target.value)}
+                      placeholder="e.g. 1-3, 5"
+                      aria-label="Pages to extract"
+                      className="h-8 w-28"
+                    />
+                    <Button type="submit" variant="outline" size="sm" disabled={!extractRange.trim()}>
+                      <FileOutput className="w-4 h-4" />
+                      Extract
+                    </Button>
+                  </form>
+                </div>
+
+                {/* Zoom Controls */}
+                <div className="flex items-center justify-center space-x-2 mb-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => zoomBy(1 / ZOOM_STEP)}
+                    disabled={zoom <= MIN_ZOOM}
+                    title="Zoom out (Ctrl+scroll)"
+                  >
+                    <ZoomOut className="w-4 h-4" />
+                  </Button>
+                  <span className="w-14 text-center text-sm text-gray-600">{Math.round(zoom * 100)}%</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => zoomBy(ZOOM_STEP)}
+                    disabled={zoom >= MAX_ZOOM}
+                    title="Zoom in (Ctrl+scroll)"
+                  >
+                    <ZoomIn className="w-4 h-4" />
+                  </Button>
+                  <Button variant={fitMode === "width" ? "default" : "outline"} size="sm" onClick={() => setFitMode("width")}>
+                    <ArrowLeftRight className="w-4 h-4" />
+                    Fit Width
+                  </Button>
+                  <Button variant={fitMode === "page" ? "default" : "outline"} size="sm" onClick={() => setFitMode("page")}>
+                    <Maximize className="w-4 h-4" />
+                    Fit Page
+                  </Button>
+                </div>
+
+                {/* Canvas Container */}
+                <div className="relative">
                   <div
-                    key={textBox.id}
-                    className="absolute"
-                    style={{
-                      left: textBox.x,
-                      top: textBox.y,
-                      fontSize: textBox.fontSize,
-                      color: textBox.color,
-                    }}
+                    ref={viewportRef}
+                    className="border border-gray-300 rounded-lg overflow-auto bg-gray-100 h-[calc(100vh-16rem)] min-h-96"
                   >
-                    {textBox.isEditing ? (
-                      <div className="bg-white border border-blue-500 rounded-lg p-2 shadow-lg min-w-[200px]">
-                        <Textarea
-                          value={textBox.text}
-                          onChange={(e) => updateTextBox(textBox.id, { text: e.target.value })}
-                          placeholder="Enter your text..."
-                          className="mb-2 resize-none"
-                          rows={3}
-                          autoFocus
+                    <div
+                      className="relative mx-auto bg-white"
+                      style={{ width: pageSize.width * zoom, height: pageSize.height * zoom }}
+                    >
+                      <canvas
+                        ref={canvasRef}
+                        onPointerDown={handleCanvasPointerDown}
+                        onPointerMove={handleCanvasPointerMove}
+                        onPointerUp={handleCanvasPointerUp}
+                        onPointerCancel={handleCanvasPointerUp}
+                        style={{ width: "100%", height: "100%" }}
+                        className={`block touch-none ${isBrushTool && selectionShape === "freehand"
+                          ? "cursor-none"
+                          : editMode === "text"
+                            ? "cursor-text"
+                            : editMode === "image" && !activeStampImage
+                              ? "cursor-not-allowed"
+                              : editMode && editMode !== "form"
+                                ? "cursor-crosshair"
+                                : panStart
+                                  ? "cursor-grabbing"
+                                  : "cursor-grab"
+                          }`}
+                      />
+
+                      {/* Existing annotations and form fields */}
+                      {pageAnnotations
+                        .filter((annotation) => !annotationEdits[currentPage]?.[annotation.id]?.deleted)
+                        .map((annotation) =>
+                          applyFormValue(
+                            applyAnnotationEdit(annotation, annotationEdits[currentPage]?.[annotation.id]),
+                            currentEntry?.source.type === "pdf" ? formValues[currentEntry.source.documentIndex] : {},
+                          ),
+                        )
+                        .map((annotation) =>
+                          editMode === "form" && isFillableField(annotation) ? (
+                            <FormFieldInput
+                              key={annotation.id}
+                              annotation={annotation}
+                              zoom={zoom}
+                              onChange={(value) => updateFormValue(annotation.field.name, value)}
+                              onCommit={commitHistory}
+                            />
+                          ) : (
+                            <AnnotationOverlay
+                              key={annotation.id}
+                              annotation={annotation}
+                              zoom={zoom}
+                              interactive={!editMode}
+                              onChange={(updates) => updateAnnotation(annotation.id, updates)}
+                              onCommit={commitHistory}
+                              onDelete={() => deleteAnnotation(annotation.id)}
+                            />
+                          ),
+                        )}
+
+                      {/* Image Stamps */}
+                      {(images[currentPage] || []).map((stamp) => (
+                        <ImageStampOverlay
+                          key={stamp.id}
+                          stamp={stamp}
+                          zoom={zoom}
+                          onChange={(updates) => updateImageStamp(stamp.id, updates)}
+                          onCommit={commitHistory}
+                          onDelete={() => deleteImageStamp(stamp.id)}
                         />
-                        <div className="flex justify-end space-x-2">
-                          <Button size="sm" variant="outline" onClick={() => deleteTextBox(textBox.id)}>
-                            <X className="w-3 h-3" />
-                          </Button>
-                          <Button size="sm" onClick={() => updateTextBox(textBox.id, { isEditing: false })}>
-                            <Check className="w-3 h-3" />
-                          </Button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div
-                        className="cursor-move hover:bg-blue-50 hover:bg-opacity-50 p-1 rounded group relative"
-                        onMouseDown={(e) => handleTextBoxMouseDown(e, textBox)}
-                        onDoubleClick={() => updateTextBox(textBox.id, { isEditing: true })}
-                      >
-                        <span className="select-none">{textBox.text || "Empty text"}</span>
-                        <div className="absolute -top-6 -right-6 opacity-0 group-hover:opacity-100 transition-opacity">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-6 w-6 p-0"
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              deleteTextBox(textBox.id)
-                            }}
+                      ))}
+
+                      {/* Text Boxes */}
+                      {(textBoxes[currentPage] || []).map((textBox) => {
+                        const preview = textFonts && textBox.text && (
+                          <TextBoxPreview
+                            style={textBox}
+                            layout={layoutText({ ...textBox, padding: TEXT_BOX_PADDING }, textFonts(textBox))}
+                            zoom={zoom}
+                            className="select-none"
+                          />
+                        )
+
+                        return (
+                          <div
+                            key={textBox.id}
+                            className="absolute"
+                            style={{ left: textBox.x * zoom, top: textBox.y * zoom }}
                           >
-                            <X className="w-3 h-3" />
-                          </Button>
-                        </div>
-                        <Move className="absolute -top-2 -left-2 w-4 h-4 text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity" />
-                      </div>
-                    )}
+                            {textBox.isEditing ? (
+                              <>
+                                {preview}
+                                <div className="absolute left-0 top-full z-10 mt-1 bg-white border border-blue-500 rounded-lg p-2 shadow-lg min-w-[200px]">
+                                  <Textarea
+                                    value={textBox.text}
+                                    onChange={(e) => updateTextBox(textBox.id, { text: e.target.value })}
+                                    placeholder="Enter your text..."
+                                    className="mb-2 resize-none"
+                                    rows={3}
+                                    autoFocus
+                                  />
+                                  <div className="flex justify-end space-x-2">
+                                    <Button size="sm" variant="outline" onClick={() => deleteTextBox(textBox.id)}>
+                                      <X className="w-3 h-3" />
+                                    </Button>
+                                    <Button size="sm" onClick={() => confirmTextBox(textBox.id)}>
+                                      <Check className="w-3 h-3" />
+                                    </Button>
+                                  </div>
+                                </div>
+                              </>
+                            ) : (
+                              <div
+                                // Focusable so a tap reveals the controls on touch screens, which have no hover
+                                tabIndex={0}
+                                className="cursor-move touch-none outline-none hover:bg-blue-50 hover:bg-opacity-50 focus:bg-blue-50 focus:bg-opacity-50 rounded group relative"
+                                onPointerDown={(e) => handleTextBoxPointerDown(e, textBox)}
+                                onPointerMove={(e) => handleTextBoxPointerMove(e, textBox)}
+                                onPointerUp={handleTextBoxPointerUp}
+                                onPointerCancel={handleTextBoxPointerUp}
+                                onDoubleClick={() => updateTextBox(textBox.id, { isEditing: true })}
+                              >
+                                {preview || (
+                                  <span
+                                    className="block select-none text-gray-400"
+                                    style={{ fontSize: textBox.fontSize * zoom, padding: TEXT_BOX_PADDING * zoom }}
+                                  >
+                                    Empty text
+                                  </span>
+                                )}
+                                <div
+                                  className="absolute -top-6 -right-6 flex space-x-1 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity"
+                                  // Keep the box from capturing the pointer, which would swallow the button clicks
+                                  onPointerDown={(e) => e.stopPropagation()}
+                                >
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-6 w-6 p-0"
+                                    onClick={(e) => {
+                                      e.stopPropagation()
+                                      updateTextBox(textBox.id, { isEditing: true })
+                                    }}
+                                  >
+                                    <Pencil className="w-3 h-3" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-6 w-6 p-0"
+                                    onClick={(e) => {
+                                      e.stopPropagation()
+                                      deleteTextBox(textBox.id)
+                                    }}
+                                  >
+                                    <X className="w-3 h-3" />
+                                  </Button>
+                                </div>
+                                <Move className="absolute -top-2 -left-2 w-4 h-4 text-blue-500 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity" />
+                              </div>
+                            )}
+                          </div>
+                        )
+                      })}
+
+                      {/* Text Match Highlights */}
+                      {Object.values(textHighlights)
+                        .flat()
+                        .filter((match) => match.pageNumber === currentPage)
+                        .flatMap((match) =>
+                          match.rects.map((rect, index) => (
+                            <div
+                              key={`${match.id}-${index}`}
+                              className={`absolute pointer-events-none rounded-sm bg-yellow-300/40 ${
+                                match.id === selectedMatchId ? "ring-2 ring-orange-500" : "ring-1 ring-yellow-500"
+                              }`}
+                              style={{
+                                left: rect.x * zoom,
+                                top: rect.y * zoom,
+                                width: rect.width * zoom,
+                                height: rect.height * zoom,
+                              }}
+                            />
+                          )),
+                        )}
+
+                      {/* Redaction Preview */}
+                      {dragPreview && editMode === "redact" && (
+                        <div
+                          className="absolute pointer-events-none border-2 border-red-500 opacity-80"
+                          style={{
+                            left: dragPreview.x * zoom,
+                            top: dragPreview.y * zoom,
+                            width: dragPreview.width * zoom,
+                            height: dragPreview.height * zoom,
+                            backgroundColor: redactColor,
+                          }}
+                        />
+                      )}
+
+                      {/* Markup Preview */}
+                      {draftMarkup && <MarkupPreview markup={draftMarkup} zoom={zoom} />}
+
+                      {/* Selection Preview */}
+                      {dragPreview && isBrushTool && (
+                        <div
+                          className={`absolute pointer-events-none border-2 border-dashed border-blue-500 bg-blue-100/30 ${selectionShape === "ellipse" ? "rounded-full" : ""}`}
+                          style={{
+                            left: dragPreview.x * zoom,
+                            top: dragPreview.y * zoom,
+                            width: dragPreview.width * zoom,
+                            height: dragPreview.height * zoom,
+                          }}
+                        />
+                      )}
+                      {lassoPoints.length > 0 && (
+                        <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+                          <polygon
+                            points={lassoPoints.map((point) => `${point.x * zoom},${point.y * zoom}`).join(" ")}
+                            className="fill-blue-100/30 stroke-blue-500"
+                            strokeWidth={2}
+                            strokeDasharray="4 3"
+                          />
+                        </svg>
+                      )}
+
+                      {/* Brush Preview */}
+                      {isBrushTool && selectionShape === "freehand" && (
+                        <div
+                          className="absolute pointer-events-none border-2 border-blue-500 rounded-full opacity-70 bg-blue-100 bg-opacity-30"
+                          style={{
+                            width: brushSize * zoom,
+                            height: brushSize * zoom,
+                            left: (mousePos.x - brushSize / 2) * zoom,
+                            top: (mousePos.y - brushSize / 2) * zoom,
+                          }}
+                        />
+                      )}
+                    </div>
                   </div>
-                ))}
 
-                {/* Brush Preview */}
-                {(editMode === "blur" || editMode === "erase") && (
-                  <div
-                    className="absolute pointer-events-none border-2 border-blue-500 rounded-full opacity-70 bg-blue-100 bg-opacity-30"
-                    style={{
-                      width: brushSize,
-                      height: brushSize,
-                      left: mousePos.x - brushSize / 2,
-                      top: mousePos.y - brushSize / 2,
-                    }}
-                  />
-                )}
-              </div>
+                  {/* Hidden canvas for original content */}
+                  <canvas ref={originalCanvasRef} className="hidden" />
 
-              {/* Instructions */}
-              <div className="mt-4 p-3 bg-blue-50 rounded-lg">
-                <p className="text-sm text-blue-800">
-                  {editMode === "blur" &&
-                    "Click and drag to blur areas with the brush. The blur effect is applied in real-time."}
-                  {editMode === "erase" && "Click and drag to erase areas with the brush"}
-                  {editMode === "text" && "Click anywhere to add a text box, then drag to reposition"}
-                  {!editMode && "Select a tool from the left panel to start editing"}
-                </p>
+                  {/* Loading overlay */}
+                  {isLoading && (
+                    <div className="absolute inset-0 bg-white bg-opacity-70 flex items-center justify-center">
+                      <div className="text-center">
+                        <div className="inline-block animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+                        <p className="text-blue-600 font-medium">Loading...</p>
+                      </div>
+                    </div>
+                  )}
+
+                  {renderError && !isLoading && (
+                    <div className="absolute inset-0 flex items-center justify-center p-4">
+                      <p role="alert" className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+                        {renderError}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Instructions */}
+                <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+                  <p className="text-sm text-blue-800">
+                    {isBrushTool && selectionShape === "freehand" &&
+                      `Click and drag to ${editMode} areas with the brush. The effect is applied in real-time.`}
+                    {isBrushTool && (selectionShape === "rectangle" || selectionShape === "ellipse") &&
+                      `Click and drag to select a ${selectionShape} to ${editMode}`}
+                    {isBrushTool && selectionShape === "lasso" &&
+                      `Click and drag to draw around the area to ${editMode}; the outline closes when you release`}
+                    {editMode === "redact" &&
+                      "Click and drag to draw a redaction box. Content under it is permanently removed from the downloaded PDF."}
+                    {editMode === "markup" &&
+                      (markupTool === "pen"
+                        ? "Click and drag to draw freehand"
+                        : markupTool === "line" || markupTool === "arrow"
+                          ? `Click and drag to draw ${markupTool === "arrow" ? "an arrow" : "a line"}`
+                          : markupTool === "highlight" || markupTool === "underline" || markupTool === "strikeout"
+                            ? `Click and drag across text to ${markupTool === "strikeout" ? "strike it through" : `${markupTool} it`}`
+                            : `Click and drag to draw ${markupTool === "ellipse" ? "an ellipse" : "a rectangle"}`)}
+                    {editMode === "text" && "Click anywhere to add a text box, then drag to reposition"}
+                    {editMode === "image" &&
+                      (activeStampImage
+                        ? "Click to place the image, then drag to move it, or use its handles to resize and rotate it"
+                        : "Upload an image or draw a signature to place it on the page")}
+                    {editMode === "form" &&
+                      "Fill in the form fields on the page, or drag elsewhere to pan. Values are saved into the form on download."}
+                    {!editMode && "Select a tool from the left panel to start editing, or drag the page to pan"}
+                  </p>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,33 @@
+import { readFile, writeFile } from "node:fs/promises"
+import { basename } from "node:path"
+
+import { EditSpecError, parseEditSpec } from "@/lib/edit-spec"
+import { processPdf } from "@/lib/headless"
+import { PdfFileError } from "@/lib/pdf"
+
+const USAGE = "Usage: edit-pdf <input.pdf> <edits.json> <output.pdf>"
+
+async function main(args: string[]) {
+  if (args.length !== 3 || args.includes("--help")) {
+    console.error(USAGE)
+    return 2
+  }
+
+  const [inputPath, specPath, outputPath] = args
+  const spec = parseEditSpec(await readFile(specPath, "utf8"))
+  const file = new File([await readFile(inputPath)], basename(inputPath), { type: "application/pdf" })
+  await writeFile(outputPath, await processPdf(file, spec))
+  return 0
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode
+  },
+  (error) => {
+    // Problems with the input are reported by their message alone; anything else gets a stack trace
+    const isInputError = error instanceof PdfFileError || error instanceof EditSpecError || error?.code === "ENOENT"
+    console.error(isInputError ? error.message : error)
+    process.exitCode = 1
+  },
+)
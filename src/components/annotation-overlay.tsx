@@ -0,0 +1,146 @@
+"use client"
+
+import * as React from "react"
+import { Check, MessageSquare, Pencil, X } from "lucide-react"
+
+import { MarkupPreview } from "@/components/markup-preview"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { getFieldFontSize, getFormFieldText, type AnnotationEdit, type PdfAnnotation } from "@/lib/pdf-annotations"
+import { cn } from "@/lib/utils"
+
+interface AnnotationOverlayProps {
+  // The annotation with any edits and form values already applied
+  annotation: PdfAnnotation
+  zoom: number
+  // Off while an editing tool is active, so annotations do not get in the way of drawing
+  interactive: boolean
+  // Called on every keystroke; onCommit is called once editing is done
+  onChange: (updates: Omit<AnnotationEdit, "deleted">) => void
+  onCommit: () => void
+  onDelete: () => void
+}
+
+function AnnotationOverlay({ annotation, zoom, interactive, onChange, onCommit, onDelete }: AnnotationOverlayProps) {
+  const [isEditing, setIsEditing] = React.useState(false)
+  const { subtype, markups, field } = annotation
+  const label = field ? `Form field ${field.name}` : `${subtype} annotation`
+
+  const finishEditing = () => {
+    setIsEditing(false)
+    onCommit()
+  }
+
+  let body: React.ReactNode = null
+  if (subtype === "FreeText") {
+    body = (
+      <span
+        className="block h-full w-full overflow-hidden whitespace-pre-wrap break-words leading-tight select-none"
+        style={{ fontSize: (annotation.fontSize ?? 10) * zoom, color: annotation.color ?? undefined }}
+      >
+        {annotation.contents}
+      </span>
+    )
+  } else if (subtype === "Text") {
+    body = (
+      <MessageSquare className="h-full w-full" style={{ color: annotation.color ?? "#facc15" }} fill="currentColor" />
+    )
+  } else if (field) {
+    body = (
+      <span
+        className="flex h-full w-full items-center overflow-hidden whitespace-nowrap border border-blue-300 bg-blue-50/40 px-0.5 select-none"
+        style={{ fontSize: getFieldFontSize(annotation) * zoom }}
+      >
+        {getFormFieldText(field)}
+      </span>
+    )
+  } else if (markups.length === 0) {
+    // Drawn by neither PDF.js (annotations are left out of the page render) nor the editor
+    body = (
+      <span className="flex h-full w-full items-center justify-center border border-dashed border-gray-400 bg-gray-50/60 text-[10px] text-gray-500 select-none">
+        {subtype}
+      </span>
+    )
+  }
+
+  return (
+    <>
+      {markups.map((markup, index) => (
+        <MarkupPreview key={index} markup={markup} zoom={zoom} />
+      ))}
+
+      <div
+        data-slot="annotation-overlay"
+        // Focusable so a tap reveals the controls on touch screens, which have no hover
+        tabIndex={interactive ? 0 : -1}
+        onKeyDown={(event) => {
+          if (!isEditing && (event.key === "Delete" || event.key === "Backspace")) onDelete()
+        }}
+        className={cn("group absolute outline-none", !interactive && "pointer-events-none", isEditing && "z-10")}
+        style={{
+          left: annotation.x * zoom,
+          top: annotation.y * zoom,
+          width: annotation.width * zoom,
+          height: annotation.height * zoom,
+        }}
+        title={annotation.contents || label}
+        aria-label={label}
+      >
+        {body}
+
+        <div className="pointer-events-none absolute inset-0 border border-dashed border-blue-500 opacity-0 group-hover:opacity-100 group-focus:opacity-100" />
+        {!isEditing && (
+          <div className="absolute -top-6 -right-6 flex space-x-1 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+            {!field && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-6 w-6 p-0"
+                onClick={() => setIsEditing(true)}
+                aria-label={subtype === "FreeText" ? "Edit text" : "Edit comment"}
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+            )}
+            <Button size="sm" variant="outline" className="h-6 w-6 p-0" onClick={onDelete} aria-label={`Delete ${label}`}>
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="absolute left-0 top-full mt-1 space-y-2 bg-white border border-blue-500 rounded-lg p-2 shadow-lg min-w-[200px]">
+            <Label className="text-xs">{subtype === "FreeText" ? "Text" : "Comment"}</Label>
+            <Textarea
+              value={annotation.contents}
+              onChange={(e) => onChange({ contents: e.target.value })}
+              className="resize-none"
+              rows={3}
+              autoFocus
+            />
+            {markups.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Label className="text-xs">Color</Label>
+                <Input
+                  type="color"
+                  value={markups[0].color}
+                  onChange={(e) => onChange({ color: e.target.value })}
+                  className="h-7 flex-1"
+                />
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button size="sm" onClick={finishEditing} aria-label="Done">
+                <Check className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
+export { AnnotationOverlay }
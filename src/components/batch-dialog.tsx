@@ -0,0 +1,221 @@
+"use client"
+
+import * as React from "react"
+import { CircleCheck, CircleX, FolderOpen, Play, Upload } from "lucide-react"
+
+import { FileDropZone } from "@/components/file-drop-zone"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import type { BatchResult, PageRule } from "@/lib/batch"
+import { cn } from "@/lib/utils"
+
+const PAGE_RULES: { rule: PageRule; label: string }[] = [
+  { rule: "same", label: "Same page number" },
+  { rule: "first", label: "First page" },
+  { rule: "last", label: "Last page" },
+  { rule: "all", label: "All pages" },
+]
+
+// Folders can hold anything, so only PDFs are queued
+const isPdfFile = (file: File) => file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")
+
+interface BatchDialogProps {
+  // Pages of the open document with edits, which make up the template
+  templatePages: { pageNumber: number; description: string }[]
+  // Resolves once every file has been processed and the results downloaded
+  onRun: (
+    files: File[],
+    rules: { [pageNumber: number]: PageRule },
+    onResult: (result: BatchResult) => void,
+  ) => Promise<void>
+  onClose: () => void
+  className?: string
+}
+
+function BatchDialog({ templatePages, onRun, onClose, className }: BatchDialogProps) {
+  const [rules, setRules] = React.useState<{ [pageNumber: number]: PageRule }>({})
+  const [files, setFiles] = React.useState<File[]>([])
+  const [results, setResults] = React.useState<BatchResult[]>([])
+  const [isRunning, setIsRunning] = React.useState(false)
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const folderInputRef = React.useRef<HTMLInputElement>(null)
+
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isRunning) onClose()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [onClose, isRunning])
+
+  const addFiles = (added: File[]) => {
+    setFiles((prev) => [...prev, ...added.filter(isPdfFile)])
+    setResults([])
+  }
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []))
+    event.target.value = ""
+  }
+
+  const run = async () => {
+    setResults([])
+    setIsRunning(true)
+    try {
+      await onRun(files, rules, (result) => setResults((prev) => [...prev, result]))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const failedCount = results.filter((result) => result.error).length
+  const isDone = !isRunning && results.length > 0
+
+  return (
+    <div
+      data-slot="batch-dialog"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(event) => {
+        if (event.target === event.currentTarget && !isRunning) onClose()
+      }}
+    >
+      <Card
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="batch-dialog-title"
+        className={cn("w-full max-w-lg max-h-full overflow-y-auto", className)}
+      >
+        <CardContent className="space-y-4 p-6">
+          <h2 id="batch-dialog-title" className="text-lg font-semibold text-gray-900">
+            Batch Process
+          </h2>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Template</h3>
+            {templatePages.length === 0 ? (
+              <p className="text-xs text-gray-600">
+                Redact, blur or add text to pages of the open document first. Those edits become the template.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {templatePages.map(({ pageNumber, description }) => (
+                  <li key={pageNumber} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      Page {pageNumber} <span className="text-xs text-gray-500">({description})</span>
+                    </span>
+                    <select
+                      value={rules[pageNumber] ?? "same"}
+                      onChange={(e) => setRules((prev) => ({ ...prev, [pageNumber]: e.target.value as PageRule }))}
+                      disabled={isRunning}
+                      aria-label={`Apply page ${pageNumber} edits to`}
+                      className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+                    >
+                      {PAGE_RULES.map(({ rule, label }) => (
+                        <option key={rule} value={rule}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Files</h3>
+            <FileDropZone onFiles={addFiles} disabled={isRunning} className="p-4 text-center">
+              <p className="text-sm text-gray-600 mb-2">Drop PDFs or a folder here, or</p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Choose Files
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => folderInputRef.current?.click()} disabled={isRunning}>
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  Choose Folder
+                </Button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf"
+                multiple
+                onChange={handleInputChange}
+                className="hidden"
+              />
+              <input
+                ref={folderInputRef}
+                type="file"
+                // Not in React's attribute types, but supported by all current browsers
+                {...{ webkitdirectory: "" }}
+                onChange={handleInputChange}
+                className="hidden"
+              />
+            </FileDropZone>
+            {files.length > 0 && (
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>
+                  {files.length} PDF{files.length === 1 ? "" : "s"} selected
+                </span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setFiles([])
+                    setResults([])
+                  }}
+                  disabled={isRunning}
+                  className="text-blue-600 hover:underline disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
+
+          {(isRunning || results.length > 0) && (
+            <div className="space-y-2">
+              <p role="status" className="text-sm text-gray-900">
+                {isRunning
+                  ? `Processing ${Math.min(results.length + 1, files.length)} of ${files.length}...`
+                  : `${results.length - failedCount} processed, ${failedCount} failed`}
+              </p>
+              {results.length > 0 && (
+                <ul className="max-h-40 space-y-1 overflow-y-auto text-xs">
+                  {results.map((result, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      {result.error ? (
+                        <CircleX className="mt-0.5 w-3 h-3 shrink-0 text-red-600" />
+                      ) : (
+                        <CircleCheck className="mt-0.5 w-3 h-3 shrink-0 text-green-600" />
+                      )}
+                      <span className={result.error ? "text-red-600" : "text-gray-700"}>
+                        {result.error ?? result.fileName}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Edits keep their position on the page. Processed files are downloaded together as a ZIP.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isRunning}>
+              {isDone ? "Close" : "Cancel"}
+            </Button>
+            <Button onClick={run} disabled={isRunning || files.length === 0 || templatePages.length === 0}>
+              <Play className="w-4 h-4 mr-2" />
+              {files.length > 0 ? `Process ${files.length} File${files.length === 1 ? "" : "s"}` : "Process"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export { BatchDialog }
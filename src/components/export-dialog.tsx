@@ -0,0 +1,295 @@
+"use client"
+
+import * as React from "react"
+import { Download, Layers, MessageSquare, type LucideIcon } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { parsePageRange } from "@/lib/edit-model"
+import type { ImageFormat } from "@/lib/image-export"
+import type { ExportMode } from "@/lib/pdf-export"
+import { cn } from "@/lib/utils"
+
+type ExportFormat = "pdf" | ImageFormat
+
+type PageSelection = "all" | "range" | "edited"
+
+// Kept by the editor, so the choices are still there the next time the dialog opens
+interface ExportSettings {
+  format: ExportFormat
+  mode: ExportMode
+  dpi: number
+  // JPEG and WebP quality, in percent
+  quality: number
+  pages: PageSelection
+  range: string
+}
+
+const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "pdf",
+  mode: "flatten",
+  dpi: 150,
+  quality: 90,
+  pages: "all",
+  range: "",
+}
+
+const MIN_DPI = 36
+// Larger pages at higher resolutions go past what browsers can hold in a canvas
+const MAX_DPI = 600
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: "pdf", label: "PDF", description: "A PDF document." },
+  { format: "png", label: "PNG", description: "A ZIP file with a lossless image of each page." },
+  { format: "jpeg", label: "JPEG", description: "A ZIP file with a compressed image of each page." },
+  { format: "webp", label: "WebP", description: "A ZIP file with a compressed image of each page." },
+  { format: "tiff", label: "TIFF", description: "A single multi-page image file, common for faxes and archives." },
+]
+
+const EXPORT_MODES: { mode: ExportMode; label: string; description: string; icon: LucideIcon }[] = [
+  {
+    mode: "flatten",
+    label: "Flatten",
+    description: "Text and markup become part of the page content and cannot be changed by recipients.",
+    icon: Layers,
+  },
+  {
+    mode: "annotate",
+    label: "Annotate",
+    description:
+      "Text boxes, highlights, shapes and pen strokes are saved as annotations that recipients can review, reply to or remove.",
+    icon: MessageSquare,
+  },
+]
+
+const PAGE_SELECTIONS: { pages: PageSelection; label: string }[] = [
+  { pages: "all", label: "All pages" },
+  { pages: "range", label: "Pages" },
+  { pages: "edited", label: "Only edited pages" },
+]
+
+/**
+ * The page numbers `settings` select, or undefined for every page. Returns
+ * null when the range is not valid or there are no pages to export.
+ */
+function getExportPages(settings: ExportSettings, pageCount: number, editedPages: number[]) {
+  if (settings.pages === "all") return undefined
+  if (settings.pages === "edited") return editedPages.length > 0 ? editedPages : null
+  return parsePageRange(settings.range, pageCount)
+}
+
+interface ExportDialogProps {
+  settings: ExportSettings
+  onSettingsChange: (settings: ExportSettings) => void
+  pageCount: number
+  // Pages with edits, for exporting only those
+  editedPages: number[]
+  // Only offered for documents with a form
+  flattenForm?: boolean
+  onFlattenFormChange?: (flatten: boolean) => void
+  // Called with the page numbers to export, or undefined for every page
+  onExport: (pageNumbers: number[] | undefined) => void
+  onCancel: () => void
+  className?: string
+}
+
+function ExportDialog({
+  settings,
+  onSettingsChange,
+  pageCount,
+  editedPages,
+  flattenForm,
+  onFlattenFormChange,
+  onExport,
+  onCancel,
+  className,
+}: ExportDialogProps) {
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onCancel()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [onCancel])
+
+  const update = (changes: Partial<ExportSettings>) => onSettingsChange({ ...settings, ...changes })
+
+  const { format, mode, dpi, quality, pages, range } = settings
+  const isPdf = format === "pdf"
+  const pageNumbers = getExportPages(settings, pageCount, editedPages)
+  const isDpiValid = Number.isInteger(dpi) && dpi >= MIN_DPI && dpi <= MAX_DPI
+  const canExport = pageNumbers !== null && (isPdf || isDpiValid)
+
+  return (
+    <div
+      data-slot="export-dialog"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(event) => {
+        if (event.target === event.currentTarget) onCancel()
+      }}
+    >
+      <Card role="dialog" aria-modal="true" aria-labelledby="export-dialog-title" className={cn("w-full max-w-md", className)}>
+        <CardContent className="space-y-4 p-6">
+          <h2 id="export-dialog-title" className="text-lg font-semibold text-gray-900">
+            Download
+          </h2>
+
+          <div className="space-y-2">
+            <div role="radiogroup" aria-label="Format" className="grid grid-cols-5 gap-1">
+              {EXPORT_FORMATS.map(({ format: value, label }) => (
+                <Button
+                  key={value}
+                  role="radio"
+                  aria-checked={format === value}
+                  variant={format === value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => update({ format: value })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-600">
+              {EXPORT_FORMATS.find((option) => option.format === format)?.description}
+            </p>
+          </div>
+
+          {isPdf ? (
+            <div role="radiogroup" aria-label="Export mode" className="space-y-2">
+              {EXPORT_MODES.map(({ mode: value, label, description, icon: Icon }) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === value}
+                  onClick={() => update({ mode: value })}
+                  className={cn(
+                    "flex w-full items-start gap-3 rounded-md border-2 p-3 text-left transition-colors",
+                    mode === value ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:border-gray-300",
+                  )}
+                >
+                  <Icon className="mt-0.5 w-4 h-4 shrink-0 text-blue-600" />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{label}</span>
+                    <span className="block text-xs text-gray-600">{description}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="export-dpi" className="text-sm">
+                  Resolution (DPI)
+                </Label>
+                <Input
+                  id="export-dpi"
+                  type="number"
+                  min={MIN_DPI}
+                  max={MAX_DPI}
+                  step={1}
+                  value={Number.isNaN(dpi) ? "" : dpi}
+                  onChange={(e) => update({ dpi: e.target.valueAsNumber })}
+                  aria-invalid={!isDpiValid}
+                  className="h-8"
+                />
+                {!isDpiValid && (
+                  <p className="text-xs text-red-600">
+                    Enter a whole number from {MIN_DPI} to {MAX_DPI}.
+                  </p>
+                )}
+              </div>
+              {(format === "jpeg" || format === "webp") && (
+                <div className="space-y-1">
+                  <Label className="text-sm">Quality</Label>
+                  <Slider
+                    value={[quality]}
+                    onValueChange={(value) => update({ quality: value[0] })}
+                    max={100}
+                    min={10}
+                    step={5}
+                    className="mt-3"
+                  />
+                  <span className="text-xs text-gray-500">{quality}%</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div role="radiogroup" aria-label="Pages" className="space-y-1">
+            {PAGE_SELECTIONS.map(({ pages: value, label }) => (
+              <Label key={value} className="font-normal text-sm">
+                <input
+                  type="radio"
+                  name="export-pages"
+                  checked={pages === value}
+                  onChange={() => update({ pages: value })}
+                  className="accent-blue-600"
+                />
+                {label}
+                {value === "range" && (
+                  <Input
+                    value={range}
+                    onChange={(e) => update({ range: e.target.value, pages: "range" })}
+                    placeholder={`e.g. 1-${Math.min(3, pageCount)}, ${pageCount}`}
+                    aria-label="Page range"
+                    aria-invalid={pages === "range" && range.trim() !== "" && pageNumbers === null}
+                    className="h-7 w-40"
+                  />
+                )}
+                {value === "edited" && (
+                  <span className="text-xs text-gray-500">
+                    ({editedPages.length} page{editedPages.length === 1 ? "" : "s"})
+                  </span>
+                )}
+              </Label>
+            ))}
+            {pages === "range" && range.trim() !== "" && pageNumbers === null && (
+              <p className="text-xs text-red-600">
+                Enter pages between 1 and {pageCount}, for example &quot;1-3, 5&quot;.
+              </p>
+            )}
+          </div>
+
+          {isPdf && flattenForm !== undefined && (
+            <div className="space-y-1">
+              <Label className="font-normal text-sm">
+                <input
+                  type="checkbox"
+                  checked={flattenForm}
+                  onChange={(e) => onFlattenFormChange?.(e.target.checked)}
+                  className="accent-blue-600"
+                />
+                Flatten form
+              </Label>
+              <p className="text-xs text-gray-600">
+                Filled-in values become part of the page content and the fields can no longer be changed.
+              </p>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            {isPdf
+              ? "Blur, erasing, redactions and images are always applied to the page content."
+              : "Images show the pages as the flattened PDF would, with every edit applied."}
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={() => pageNumbers !== null && onExport(pageNumbers)} disabled={!canExport} autoFocus>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export { DEFAULT_EXPORT_SETTINGS, ExportDialog, type ExportSettings }
@@ -0,0 +1,90 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+// Lists the files in a dropped folder and its subfolders, leaving out hidden files such as .DS_Store
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.name.startsWith(".")) return []
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))]
+  }
+  if (!entry.isDirectory) return []
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const files: File[] = []
+  // Folders are listed in batches, until an empty one
+  for (;;) {
+    const children = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (children.length === 0) return files
+    for (const child of children) files.push(...(await readEntry(child)))
+  }
+}
+
+// The drop's items are only readable during the event, so they are collected before anything is awaited
+const getDroppedFiles = (dataTransfer: DataTransfer) => {
+  const files = Array.from(dataTransfer.files)
+  const entries = Array.from(dataTransfer.items, (item) => item.webkitGetAsEntry())
+  if (!entries.some((entry) => entry?.isDirectory)) return Promise.resolve(files)
+  return Promise.all(entries.map((entry) => (entry ? readEntry(entry) : []))).then((lists) => lists.flat())
+}
+
+interface FileDropZoneProps extends Omit<React.ComponentProps<"div">, "onDrop"> {
+  onFiles: (files: File[]) => void
+  disabled?: boolean
+}
+
+function FileDropZone({ onFiles, disabled, className, children, ...props }: FileDropZoneProps) {
+  const [isDragging, setIsDragging] = React.useState(false)
+  // Drag events also fire when moving between children, so nesting is counted
+  const dragDepthRef = React.useRef(0)
+
+  const acceptsDrag = (event: React.DragEvent) => !disabled && event.dataTransfer.types.includes("Files")
+
+  const endDrag = () => {
+    dragDepthRef.current = 0
+    setIsDragging(false)
+  }
+
+  return (
+    <div
+      data-slot="file-drop-zone"
+      data-dragging={isDragging || undefined}
+      onDragEnter={(event) => {
+        if (!acceptsDrag(event)) return
+        event.preventDefault()
+        dragDepthRef.current++
+        setIsDragging(true)
+      }}
+      onDragOver={(event) => {
+        if (!acceptsDrag(event)) return
+        event.preventDefault()
+        event.dataTransfer.dropEffect = "copy"
+      }}
+      onDragLeave={() => {
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+        if (dragDepthRef.current === 0) setIsDragging(false)
+      }}
+      onDrop={(event) => {
+        event.preventDefault()
+        endDrag()
+        if (disabled) return
+        getDroppedFiles(event.dataTransfer)
+          .then(onFiles)
+          .catch((error) => console.error("Error reading dropped files:", error))
+      }}
+      className={cn(
+        "rounded-lg border-2 border-dashed border-gray-300 transition-colors",
+        isDragging && "border-blue-500 bg-blue-50",
+        disabled && "opacity-50",
+        className,
+      )}
+      {...props}
+    >
+      {children}
+    </div>
+  )
+}
+
+export { FileDropZone }
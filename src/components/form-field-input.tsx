@@ -0,0 +1,116 @@
+"use client"
+
+import * as React from "react"
+
+import { getFieldFontSize, type FormValue, type PdfAnnotation, type PdfFormField } from "@/lib/pdf-annotations"
+import { cn } from "@/lib/utils"
+
+type FillableField = PdfFormField & { type: "text" | "checkbox" | "radio" | "dropdown" }
+
+interface FormFieldInputProps {
+  // A form field widget, with the value entered in the editor already applied
+  annotation: PdfAnnotation & { field: FillableField }
+  zoom: number
+  // Called on every keystroke; onCommit is called once the value is final
+  onChange: (value: FormValue) => void
+  onCommit: () => void
+}
+
+/** Whether the editor can fill in a widget's field, as opposed to buttons, signatures and the like. */
+function isFillableField(annotation: PdfAnnotation): annotation is PdfAnnotation & { field: FillableField } {
+  return Boolean(annotation.field && annotation.field.type !== "other")
+}
+
+/** An HTML input placed over a form field widget, matching the field's type. */
+function FormFieldInput({ annotation, zoom, onChange, onCommit }: FormFieldInputProps) {
+  const { field } = annotation
+  const inputClassName =
+    "h-full w-full border border-blue-400 bg-blue-50/70 px-0.5 outline-none focus:bg-white focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed disabled:opacity-60"
+  const textStyle = { fontSize: getFieldFontSize(annotation) * zoom }
+
+  // Checkboxes, radio buttons and dropdowns have their final value as soon as it changes
+  const changeAndCommit = (value: FormValue) => {
+    onChange(value)
+    onCommit()
+  }
+
+  let input: React.ReactNode
+  if (field.type === "text") {
+    const props = {
+      value: typeof field.value === "string" ? field.value : "",
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange(e.target.value),
+      onBlur: onCommit,
+      maxLength: field.maxLength,
+      disabled: field.readOnly,
+      "aria-label": field.name,
+      style: textStyle,
+    }
+    input = field.multiline ? (
+      <textarea {...props} className={cn(inputClassName, "resize-none leading-tight")} />
+    ) : (
+      <input type="text" {...props} className={inputClassName} />
+    )
+  } else if (field.type === "checkbox") {
+    input = (
+      <input
+        type="checkbox"
+        checked={field.value === true}
+        onChange={(e) => changeAndCommit(e.target.checked)}
+        disabled={field.readOnly}
+        aria-label={field.name}
+        className="h-full w-full accent-blue-600"
+      />
+    )
+  } else if (field.type === "radio") {
+    input = (
+      <input
+        type="radio"
+        name={field.name}
+        checked={field.value !== "" && field.value === field.buttonValue}
+        onChange={() => changeAndCommit(field.buttonValue ?? "")}
+        disabled={field.readOnly}
+        aria-label={`${field.name}: ${field.buttonValue}`}
+        className="h-full w-full accent-blue-600"
+      />
+    )
+  } else {
+    const selected = typeof field.value === "string" ? field.value : ""
+    const isListed = field.options?.some((option) => option.value === selected)
+    input = (
+      <select
+        value={selected}
+        onChange={(e) => changeAndCommit(e.target.value)}
+        disabled={field.readOnly}
+        aria-label={field.name}
+        className={cn(inputClassName, "py-0")}
+        style={textStyle}
+      >
+        {/* No selection, or a value typed into an editable dropdown */}
+        {!isListed && <option value={selected}>{selected}</option>}
+        {field.options?.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
+  return (
+    <div
+      data-slot="form-field-input"
+      className="absolute"
+      style={{
+        left: annotation.x * zoom,
+        top: annotation.y * zoom,
+        width: annotation.width * zoom,
+        height: annotation.height * zoom,
+      }}
+      title={field.name}
+    >
+      {input}
+    </div>
+  )
+}
+
+export { FormFieldInput, isFillableField }
@@ -0,0 +1,146 @@
+"use client"
+
+import * as React from "react"
+import { RotateCw, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import type { ImageStamp } from "@/lib/image-stamp"
+
+// Smallest side a stamp can be resized to, in page units
+const MIN_STAMP_SIZE = 8
+// Holding Shift while rotating snaps to this many degrees
+const ROTATION_SNAP = 15
+
+type DragMode = "move" | "resize" | "rotate"
+
+interface DragState {
+  mode: DragMode
+  pointer: { x: number; y: number }
+  // Centre of the stamp in client pixels when the drag started
+  center: { x: number; y: number }
+  stamp: ImageStamp
+}
+
+interface ImageStampOverlayProps {
+  stamp: ImageStamp
+  zoom: number
+  // Called continuously while dragging; onCommit is called once the drag ends
+  onChange: (updates: Partial<ImageStamp>) => void
+  onCommit: () => void
+  onDelete: () => void
+}
+
+function ImageStampOverlay({ stamp, zoom, onChange, onCommit, onDelete }: ImageStampOverlayProps) {
+  const elementRef = React.useRef<HTMLDivElement>(null)
+  const dragRef = React.useRef<DragState | null>(null)
+
+  const startDrag = (mode: DragMode) => (event: React.PointerEvent) => {
+    event.stopPropagation()
+    if (!event.isPrimary || !elementRef.current) return
+
+    // Capture so the drag continues when the pointer moves faster than the stamp
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const rect = elementRef.current.getBoundingClientRect()
+    dragRef.current = {
+      mode,
+      pointer: { x: event.clientX, y: event.clientY },
+      center: { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 },
+      stamp,
+    }
+  }
+
+  const drag = (event: React.PointerEvent) => {
+    const state = dragRef.current
+    if (!state || !event.isPrimary) return
+
+    const { mode, pointer, center, stamp: start } = state
+    if (mode === "move") {
+      onChange({ x: start.x + (event.clientX - pointer.x) / zoom, y: start.y + (event.clientY - pointer.y) / zoom })
+    } else if (mode === "resize") {
+      // Scales around the centre, which keeps the maths the same at any rotation
+      const scale =
+        Math.hypot(event.clientX - center.x, event.clientY - center.y) /
+        Math.max(1, Math.hypot(pointer.x - center.x, pointer.y - center.y))
+      const factor = Math.max(scale, MIN_STAMP_SIZE / Math.min(start.width, start.height))
+      const width = start.width * factor
+      const height = start.height * factor
+      onChange({
+        x: start.x + (start.width - width) / 2,
+        y: start.y + (start.height - height) / 2,
+        width,
+        height,
+      })
+    } else {
+      const angle = (x: number, y: number) => (Math.atan2(y - center.y, x - center.x) * 180) / Math.PI
+      let rotation = start.rotation + angle(event.clientX, event.clientY) - angle(pointer.x, pointer.y)
+      if (event.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP
+      onChange({ rotation: ((rotation % 360) + 360) % 360 })
+    }
+  }
+
+  const endDrag = () => {
+    if (!dragRef.current) return
+    dragRef.current = null
+    onCommit()
+  }
+
+  const dragHandlers = (mode: DragMode) => ({
+    onPointerDown: startDrag(mode),
+    onPointerMove: drag,
+    onPointerUp: endDrag,
+    onPointerCancel: endDrag,
+  })
+
+  return (
+    <div
+      ref={elementRef}
+      data-slot="image-stamp"
+      // Focusable so a tap reveals the handles on touch screens, which have no hover
+      tabIndex={0}
+      onKeyDown={(event) => {
+        if (event.key === "Delete" || event.key === "Backspace") onDelete()
+      }}
+      className="group absolute cursor-move touch-none outline-none"
+      style={{
+        left: stamp.x * zoom,
+        top: stamp.y * zoom,
+        width: stamp.width * zoom,
+        height: stamp.height * zoom,
+        transform: `rotate(${stamp.rotation}deg)`,
+      }}
+      {...dragHandlers("move")}
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element -- data URLs cannot go through next/image */}
+      <img src={stamp.src} alt="" draggable={false} className="pointer-events-none block h-full w-full select-none" />
+
+      <div className="pointer-events-none absolute inset-0 border border-dashed border-blue-500 opacity-0 group-hover:opacity-100 group-focus:opacity-100" />
+      <div className="opacity-0 transition-opacity group-hover:opacity-100 group-focus:opacity-100">
+        <span
+          className="absolute -top-7 left-1/2 flex h-5 w-5 -translate-x-1/2 cursor-grab items-center justify-center rounded-full border border-blue-500 bg-white text-blue-500"
+          title="Rotate (hold Shift to snap)"
+          {...dragHandlers("rotate")}
+        >
+          <RotateCw className="h-3 w-3" />
+        </span>
+        <span
+          className="absolute -right-1.5 -bottom-1.5 h-3 w-3 cursor-nwse-resize rounded-sm border border-blue-500 bg-white"
+          title="Resize"
+          {...dragHandlers("resize")}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="absolute -top-3 -right-3 h-6 w-6 p-0"
+          // Keep the stamp from capturing the pointer, which would swallow the click
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={onDelete}
+          aria-label="Delete image"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export { ImageStampOverlay }
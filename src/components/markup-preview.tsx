@@ -0,0 +1,78 @@
+import * as React from "react"
+
+import { getArrowHead, getMarkupStroke, HIGHLIGHT_OPACITY, type MarkupAction } from "@/lib/markup"
+
+interface MarkupPreviewProps {
+  markup: MarkupAction
+  zoom: number
+}
+
+/**
+ * Markup drawn as SVG over the page: markup that is still being drawn, before
+ * it is rendered onto the page canvas, and annotations read from the PDF.
+ */
+function MarkupPreview({ markup, zoom }: MarkupPreviewProps) {
+  const toPoints = (points: { x: number; y: number }[]) =>
+    points.map((point) => `${point.x * zoom},${point.y * zoom}`).join(" ")
+
+  let shape: React.ReactNode
+  if (markup.type === "highlight") {
+    shape = (
+      <rect
+        x={markup.x * zoom}
+        y={markup.y * zoom}
+        width={markup.width * zoom}
+        height={markup.height * zoom}
+        fill={markup.color}
+        fillOpacity={HIGHLIGHT_OPACITY}
+        style={{ mixBlendMode: "multiply" }}
+      />
+    )
+  } else if (markup.type === "rectangle") {
+    shape = (
+      <rect
+        x={markup.x * zoom}
+        y={markup.y * zoom}
+        width={markup.width * zoom}
+        height={markup.height * zoom}
+        fill="none"
+        stroke={markup.color}
+        strokeWidth={markup.strokeWidth * zoom}
+      />
+    )
+  } else if (markup.type === "ellipse") {
+    shape = (
+      <ellipse
+        cx={(markup.x + markup.width / 2) * zoom}
+        cy={(markup.y + markup.height / 2) * zoom}
+        rx={(markup.width / 2) * zoom}
+        ry={(markup.height / 2) * zoom}
+        fill="none"
+        stroke={markup.color}
+        strokeWidth={markup.strokeWidth * zoom}
+      />
+    )
+  } else {
+    shape = (
+      <>
+        <polyline
+          points={toPoints(getMarkupStroke(markup))}
+          fill="none"
+          stroke={markup.color}
+          strokeWidth={markup.strokeWidth * zoom}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+        {markup.type === "arrow" && <polygon points={toPoints(getArrowHead(markup))} fill={markup.color} />}
+      </>
+    )
+  }
+
+  return (
+    <svg data-slot="markup-preview" className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+      {shape}
+    </svg>
+  )
+}
+
+export { MarkupPreview }
@@ -0,0 +1,205 @@
+"use client"
+
+import * as React from "react"
+import type { PDFPageProxy, RenderTask } from "pdfjs-dist"
+import { Pencil } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+
+const THUMBNAIL_WIDTH = 96
+
+interface ThumbnailPage {
+  id: string
+  // Clockwise rotation in degrees on top of the page's own
+  rotation: number
+}
+
+interface PageThumbnailsProps<T extends ThumbnailPage> {
+  pages: T[]
+  getPage: (page: T) => Promise<PDFPageProxy>
+  // Optional caption under the page number, e.g. which file the page came from
+  getPageLabel?: (page: T) => string
+  currentPage: number
+  editedPages: Set<number>
+  onSelectPage: (pageNumber: number) => void
+  // Called with 1-based page numbers when a thumbnail is dropped onto another
+  onMovePage?: (from: number, to: number) => void
+  className?: string
+}
+
+function PageThumbnails<T extends ThumbnailPage>({
+  pages,
+  getPage,
+  getPageLabel,
+  currentPage,
+  editedPages,
+  onSelectPage,
+  onMovePage,
+  className,
+}: PageThumbnailsProps<T>) {
+  const containerRef = React.useRef<HTMLDivElement>(null)
+  const [draggedPage, setDraggedPage] = React.useState<number | null>(null)
+  const [dropTarget, setDropTarget] = React.useState<number | null>(null)
+
+  const endDrag = () => {
+    setDraggedPage(null)
+    setDropTarget(null)
+  }
+
+  return (
+    <div ref={containerRef} data-slot="page-thumbnails" className={cn("overflow-y-auto space-y-3 pr-1", className)}>
+      {pages.map((page, index) => {
+        const pageNumber = index + 1
+        return (
+          <div
+            key={page.id}
+            draggable={Boolean(onMovePage)}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = "move"
+              setDraggedPage(pageNumber)
+            }}
+            onDragOver={(event) => {
+              if (draggedPage === null) return
+              event.preventDefault()
+              setDropTarget(pageNumber)
+            }}
+            onDrop={(event) => {
+              event.preventDefault()
+              if (draggedPage !== null && draggedPage !== pageNumber) onMovePage?.(draggedPage, pageNumber)
+              endDrag()
+            }}
+            onDragEnd={endDrag}
+            className={cn(
+              "rounded-md",
+              draggedPage === pageNumber && "opacity-50",
+              dropTarget === pageNumber && draggedPage !== pageNumber && "ring-2 ring-blue-400",
+            )}
+          >
+            <PageThumbnail
+              page={page}
+              getPage={getPage}
+              pageNumber={pageNumber}
+              label={getPageLabel?.(page)}
+              isCurrent={pageNumber === currentPage}
+              isEdited={editedPages.has(pageNumber)}
+              onSelect={onSelectPage}
+              scrollRoot={containerRef}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface PageThumbnailProps<T extends ThumbnailPage> {
+  page: T
+  getPage: (page: T) => Promise<PDFPageProxy>
+  pageNumber: number
+  label?: string
+  isCurrent: boolean
+  isEdited: boolean
+  onSelect: (pageNumber: number) => void
+  scrollRoot: React.RefObject<HTMLDivElement | null>
+}
+
+function PageThumbnail<T extends ThumbnailPage>({
+  page,
+  getPage,
+  pageNumber,
+  label,
+  isCurrent,
+  isEdited,
+  onSelect,
+  scrollRoot,
+}: PageThumbnailProps<T>) {
+  const buttonRef = React.useRef<HTMLButtonElement>(null)
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const [isVisible, setIsVisible] = React.useState(false)
+  const [isRendered, setIsRendered] = React.useState(false)
+
+  // Only render thumbnails once they scroll into view so long documents stay responsive
+  React.useEffect(() => {
+    const button = buttonRef.current
+    if (!button || isVisible) return
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) setIsVisible(true)
+      },
+      { root: scrollRoot.current, rootMargin: "200px" },
+    )
+    observer.observe(button)
+    return () => observer.disconnect()
+  }, [isVisible, scrollRoot])
+
+  React.useEffect(() => {
+    if (!isVisible) return
+
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+
+    getPage(page)
+      .then((pdfPage) => {
+        const canvas = canvasRef.current
+        const context = canvas?.getContext("2d")
+        if (cancelled || !canvas || !context) return
+
+        const rotation = (pdfPage.rotate + page.rotation) % 360
+        const viewport = pdfPage.getViewport({
+          scale: THUMBNAIL_WIDTH / pdfPage.getViewport({ scale: 1, rotation }).width,
+          rotation,
+        })
+        canvas.width = viewport.width
+        canvas.height = viewport.height
+        renderTask = pdfPage.render({ canvasContext: context, viewport })
+        return renderTask.promise.then(() => {
+          if (!cancelled) setIsRendered(true)
+        })
+      })
+      .catch((error) => {
+        if (!cancelled) console.error("Error rendering page thumbnail:", error)
+      })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [isVisible, getPage, page])
+
+  React.useEffect(() => {
+    if (isCurrent) buttonRef.current?.scrollIntoView({ block: "nearest" })
+  }, [isCurrent])
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={() => onSelect(pageNumber)}
+      aria-current={isCurrent ? "page" : undefined}
+      aria-label={`Go to page ${pageNumber}${label ? `, ${label}` : ""}${isEdited ? " (edited)" : ""}`}
+      className={cn(
+        "relative block w-full rounded-md border-2 p-1 text-center transition-colors",
+        isCurrent ? "border-blue-500 bg-blue-50" : "border-transparent hover:border-gray-300",
+      )}
+    >
+      <canvas
+        ref={canvasRef}
+        className={cn("mx-auto bg-white shadow-sm", !isRendered && "h-32 w-full animate-pulse bg-gray-100")}
+      />
+      {isEdited && (
+        <span className="absolute top-2 right-2 rounded-full bg-blue-500 p-1 text-white" title="Page has edits">
+          <Pencil className="w-3 h-3" />
+        </span>
+      )}
+      <span className="mt-1 block text-xs text-gray-600">{pageNumber}</span>
+      {label && (
+        <span className="block truncate text-[10px] text-gray-400" title={label}>
+          {label}
+        </span>
+      )}
+    </button>
+  )
+}
+
+export { PageThumbnails }
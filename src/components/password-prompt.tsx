@@ -0,0 +1,64 @@
+"use client"
+
+import * as React from "react"
+import { Lock } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+
+interface PasswordPromptProps {
+  fileName: string
+  // Whether the previous attempt was rejected
+  incorrect: boolean
+  onSubmit: (password: string) => void
+  onCancel: () => void
+  className?: string
+}
+
+function PasswordPrompt({ fileName, incorrect, onSubmit, onCancel, className }: PasswordPromptProps) {
+  const [password, setPassword] = React.useState("")
+
+  return (
+    <form
+      data-slot="password-prompt"
+      onSubmit={(event) => {
+        event.preventDefault()
+        onSubmit(password)
+      }}
+      className={cn("space-y-3 text-left", className)}
+    >
+      <p className="flex items-center gap-2 font-medium text-gray-900">
+        <Lock className="w-4 h-4 shrink-0" />
+        <span className="truncate">&quot;{fileName}&quot; is password protected</span>
+      </p>
+      <div className="space-y-1">
+        <Label htmlFor="pdf-password">Password</Label>
+        <Input
+          id="pdf-password"
+          type="password"
+          autoFocus
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          aria-invalid={incorrect}
+        />
+        {incorrect && (
+          <p role="alert" className="text-xs text-red-600">
+            That password is not correct. Try again.
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" className="flex-1" disabled={!password}>
+          Unlock
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export { PasswordPrompt }
@@ -0,0 +1,262 @@
+"use client"
+
+import * as React from "react"
+import { CloudyIcon as Blur, ScanSearch, Settings2, SquareDashed, Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { TextMatchSnippet } from "@/components/text-match-snippet"
+import {
+  PII_RULE_PACKS,
+  compileRule,
+  getActiveRules,
+  scanPageText,
+  type PiiMatch,
+  type PiiRuleConfig,
+} from "@/lib/pii-rules"
+import type { PageText } from "@/lib/text-search"
+import { cn } from "@/lib/utils"
+
+type AcceptMode = "blur" | "redact"
+
+interface PiiScannerPanelProps {
+  pageCount: number
+  getPageText: (pageNumber: number) => Promise<PageText>
+  config: PiiRuleConfig
+  onConfigChange: (config: PiiRuleConfig) => void
+  onMatchesChange: (matches: PiiMatch[]) => void
+  onSelectMatch: (match: PiiMatch) => void
+  onAccept: (matches: PiiMatch[], mode: AcceptMode) => void
+  className?: string
+}
+
+function PiiScannerPanel({
+  pageCount,
+  getPageText,
+  config,
+  onConfigChange,
+  onMatchesChange,
+  onSelectMatch,
+  onAccept,
+  className,
+}: PiiScannerPanelProps) {
+  const [matches, setMatches] = React.useState<PiiMatch[] | null>(null)
+  const [progress, setProgress] = React.useState<number | null>(null)
+  const [scanError, setScanError] = React.useState<string | null>(null)
+  const [showRules, setShowRules] = React.useState(false)
+
+  const updateMatches = (next: PiiMatch[] | null) => {
+    setMatches(next)
+    onMatchesChange(next ?? [])
+  }
+
+  const scan = async () => {
+    const rules = getActiveRules(config)
+    setScanError(null)
+    setProgress(0)
+    try {
+      const found: PiiMatch[] = []
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        found.push(...scanPageText(await getPageText(pageNumber), rules))
+        setProgress(pageNumber)
+      }
+      updateMatches(found)
+    } catch (error) {
+      console.error("Error scanning for personal data:", error)
+      setScanError("The document could not be scanned.")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const accept = (accepted: PiiMatch[], mode: AcceptMode) => {
+    onAccept(accepted, mode)
+    dismiss(accepted)
+  }
+
+  const dismiss = (dismissed: PiiMatch[]) => {
+    const ids = new Set(dismissed.map((match) => match.id))
+    updateMatches((matches ?? []).filter((match) => !ids.has(match.id)))
+  }
+
+  const toggleRule = (ruleId: string, enabled: boolean) => {
+    const disabledRules = config.disabledRules.filter((id) => id !== ruleId)
+    onConfigChange({ ...config, disabledRules: enabled ? disabledRules : [...disabledRules, ruleId] })
+  }
+
+  return (
+    <div data-slot="pii-scanner-panel" className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Personal Data</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setShowRules(!showRules)}
+          title="Detection rules"
+          aria-label="Detection rules"
+          aria-expanded={showRules}
+        >
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {showRules && (
+        <div className="space-y-3 rounded-md border p-3">
+          {PII_RULE_PACKS.map((pack) => (
+            <div key={pack.id} className="space-y-1">
+              <p className="text-xs font-medium text-gray-500">{pack.label}</p>
+              {pack.rules.map((rule) => (
+                <Label key={rule.id} className="font-normal">
+                  <input
+                    type="checkbox"
+                    checked={!config.disabledRules.includes(rule.id)}
+                    onChange={(e) => toggleRule(rule.id, e.target.checked)}
+                    className="accent-blue-600"
+                  />
+                  {rule.label}
+                </Label>
+              ))}
+            </div>
+          ))}
+          <CustomRules config={config} onConfigChange={onConfigChange} />
+        </div>
+      )}
+
+      <Button variant="outline" onClick={scan} disabled={progress !== null} className="w-full">
+        <ScanSearch className="w-4 h-4 mr-2" />
+        {progress !== null ? `Scanning page ${progress} of ${pageCount}...` : "Scan Document"}
+      </Button>
+
+      {scanError && (
+        <p role="alert" className="text-xs text-red-600">
+          {scanError}
+        </p>
+      )}
+
+      {matches && (
+        <>
+          <p className="text-xs text-gray-500">
+            {matches.length === 0 ? "No personal data found." : `${matches.length} possible matches`}
+          </p>
+
+          {matches.length > 0 && (
+            <>
+              <ul className="max-h-80 overflow-y-auto space-y-2 pr-1">
+                {matches.map((match) => (
+                  <li key={match.id} className="rounded-md border p-2 text-xs">
+                    <button type="button" onClick={() => onSelectMatch(match)} className="block w-full text-left">
+                      <span className="flex justify-between text-gray-500">
+                        <span>{match.ruleLabel}</span>
+                        <span>Page {match.pageNumber}</span>
+                      </span>
+                      <TextMatchSnippet match={match} className="mt-1" />
+                    </button>
+                    <div className="mt-2 flex gap-1">
+                      <Button size="sm" variant="outline" className="h-7 flex-1" onClick={() => accept([match], "blur")}>
+                        <Blur className="w-3 h-3 mr-1" />
+                        Blur
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-7 flex-1" onClick={() => accept([match], "redact")}>
+                        <SquareDashed className="w-3 h-3 mr-1" />
+                        Redact
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => dismiss([match])}
+                        title="Ignore"
+                        aria-label="Ignore"
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" onClick={() => accept(matches, "blur")}>
+                  Blur All
+                </Button>
+                <Button size="sm" onClick={() => accept(matches, "redact")}>
+                  Redact All
+                </Button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+interface CustomRulesProps {
+  config: PiiRuleConfig
+  onConfigChange: (config: PiiRuleConfig) => void
+}
+
+function CustomRules({ config, onConfigChange }: CustomRulesProps) {
+  const [label, setLabel] = React.useState("")
+  const [pattern, setPattern] = React.useState("")
+  const [error, setError] = React.useState<string | null>(null)
+
+  const addRule = (event: React.FormEvent) => {
+    event.preventDefault()
+    const rule = { id: `custom-${Date.now()}`, label: label.trim() || pattern, pattern }
+    try {
+      compileRule(rule)
+    } catch {
+      setError("This is not a valid regular expression.")
+      return
+    }
+
+    onConfigChange({ ...config, customRules: [...config.customRules, rule] })
+    setLabel("")
+    setPattern("")
+    setError(null)
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-gray-500">Custom rules</p>
+      {config.customRules.map((rule) => (
+        <div key={rule.id} className="flex items-center justify-between gap-2 text-sm">
+          <span className="truncate" title={rule.pattern}>
+            {rule.label}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() =>
+              onConfigChange({ ...config, customRules: config.customRules.filter((custom) => custom.id !== rule.id) })
+            }
+            aria-label={`Remove ${rule.label}`}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <form onSubmit={addRule} className="space-y-1">
+        <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Name" className="h-8" />
+        <div className="flex gap-1">
+          <Input
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder="Regular expression"
+            className="h-8 font-mono"
+            aria-invalid={Boolean(error)}
+          />
+          <Button type="submit" size="icon" className="h-8 w-8 shrink-0" disabled={!pattern} aria-label="Add rule">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </form>
+    </div>
+  )
+}
+
+export { PiiScannerPanel }
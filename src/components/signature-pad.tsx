@@ -0,0 +1,162 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import type { StampImage } from "@/lib/image-stamp"
+import { cn } from "@/lib/utils"
+
+const PAD_WIDTH = 320
+const PAD_HEIGHT = 140
+const LINE_WIDTH = 2.5
+// The signature is saved at this multiple of the pad size so it stays sharp on the page
+const EXPORT_SCALE = 3
+
+const INK_COLORS = [
+  { value: "#111827", label: "Black" },
+  { value: "#1d4ed8", label: "Blue" },
+]
+
+interface SignaturePadProps {
+  onSave: (image: StampImage) => void
+  onCancel: () => void
+  className?: string
+}
+
+function SignaturePad({ onSave, onCancel, className }: SignaturePadProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const lastPointRef = React.useRef<{ x: number; y: number } | null>(null)
+  // Drawn area in pad units, so the saved image is trimmed to the signature
+  const boundsRef = React.useRef<{ left: number; top: number; right: number; bottom: number } | null>(null)
+  const [inkColor, setInkColor] = React.useState(INK_COLORS[0].value)
+  const [isEmpty, setIsEmpty] = React.useState(true)
+
+  const getContext = () => {
+    const context = canvasRef.current?.getContext("2d")
+    if (!context) return null
+    context.setTransform(EXPORT_SCALE, 0, 0, EXPORT_SCALE, 0, 0)
+    context.lineCap = "round"
+    context.lineJoin = "round"
+    context.lineWidth = LINE_WIDTH
+    context.strokeStyle = inkColor
+    return context
+  }
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    }
+  }
+
+  const drawTo = (point: { x: number; y: number }) => {
+    const context = getContext()
+    const from = lastPointRef.current ?? point
+    if (!context) return
+
+    context.beginPath()
+    context.moveTo(from.x, from.y)
+    context.lineTo(point.x, point.y)
+    context.stroke()
+    lastPointRef.current = point
+
+    const bounds = boundsRef.current
+    boundsRef.current = {
+      left: Math.min(bounds?.left ?? point.x, point.x),
+      top: Math.min(bounds?.top ?? point.y, point.y),
+      right: Math.max(bounds?.right ?? point.x, point.x),
+      bottom: Math.max(bounds?.bottom ?? point.y, point.y),
+    }
+    setIsEmpty(false)
+  }
+
+  const endStroke = () => {
+    lastPointRef.current = null
+  }
+
+  const clear = () => {
+    const context = canvasRef.current?.getContext("2d")
+    context?.setTransform(1, 0, 0, 1, 0, 0)
+    context?.clearRect(0, 0, PAD_WIDTH * EXPORT_SCALE, PAD_HEIGHT * EXPORT_SCALE)
+    boundsRef.current = null
+    setIsEmpty(true)
+  }
+
+  const save = () => {
+    const canvas = canvasRef.current
+    const bounds = boundsRef.current
+    if (!canvas || !bounds) return
+
+    const margin = LINE_WIDTH
+    const left = Math.max(0, bounds.left - margin)
+    const top = Math.max(0, bounds.top - margin)
+    const width = Math.min(PAD_WIDTH, bounds.right + margin) - left
+    const height = Math.min(PAD_HEIGHT, bounds.bottom + margin) - top
+
+    const sourceX = left * EXPORT_SCALE
+    const sourceY = top * EXPORT_SCALE
+    const trimmed = document.createElement("canvas")
+    trimmed.width = Math.ceil(width * EXPORT_SCALE)
+    trimmed.height = Math.ceil(height * EXPORT_SCALE)
+    const { width: trimmedWidth, height: trimmedHeight } = trimmed
+    trimmed
+      .getContext("2d")
+      ?.drawImage(canvas, sourceX, sourceY, trimmedWidth, trimmedHeight, 0, 0, trimmedWidth, trimmedHeight)
+    onSave({ name: "Signature", src: trimmed.toDataURL("image/png"), width, height })
+  }
+
+  return (
+    <div data-slot="signature-pad" className={cn("space-y-2", className)}>
+      <canvas
+        ref={canvasRef}
+        width={PAD_WIDTH * EXPORT_SCALE}
+        height={PAD_HEIGHT * EXPORT_SCALE}
+        onPointerDown={(event) => {
+          if (!event.isPrimary) return
+          event.currentTarget.setPointerCapture(event.pointerId)
+          lastPointRef.current = null
+          drawTo(getPoint(event))
+        }}
+        onPointerMove={(event) => {
+          if (lastPointRef.current && event.isPrimary) drawTo(getPoint(event))
+        }}
+        onPointerUp={endStroke}
+        onPointerCancel={endStroke}
+        className="block w-full touch-none rounded-md border border-gray-300 bg-white cursor-crosshair"
+        style={{ aspectRatio: `${PAD_WIDTH} / ${PAD_HEIGHT}` }}
+        aria-label="Signature pad"
+      />
+      <div className="flex items-center gap-2">
+        {INK_COLORS.map((color) => (
+          <button
+            key={color.value}
+            type="button"
+            onClick={() => setInkColor(color.value)}
+            className={cn(
+              "h-5 w-5 rounded-full border-2",
+              inkColor === color.value ? "border-blue-500" : "border-transparent",
+            )}
+            style={{ backgroundColor: color.value }}
+            title={`${color.label} ink`}
+            aria-label={`${color.label} ink`}
+            aria-pressed={inkColor === color.value}
+          />
+        ))}
+        <Button variant="ghost" size="sm" onClick={clear} disabled={isEmpty} className="ml-auto">
+          Clear
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={save} disabled={isEmpty}>
+          Use Signature
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export { SignaturePad }
@@ -0,0 +1,75 @@
+import * as React from "react"
+
+import {
+  FONT_FAMILIES,
+  UNDERLINE_OFFSET,
+  UNDERLINE_THICKNESS,
+  type TextLayout,
+  type TextStyle,
+} from "@/lib/text-layout"
+import { cn } from "@/lib/utils"
+
+interface TextBoxPreviewProps {
+  style: TextStyle
+  layout: TextLayout
+  zoom: number
+  className?: string
+}
+
+/**
+ * Draws a laid-out text box in page units. Each line is stretched to the width
+ * measured with the PDF font, so the overlay matches the exported text even
+ * when the browser substitutes a different font.
+ */
+function TextBoxPreview({ style, layout, zoom, className }: TextBoxPreviewProps) {
+  const fontFamily = FONT_FAMILIES.find((family) => family.value === style.fontFamily)?.css
+
+  return (
+    <svg
+      data-slot="text-box-preview"
+      width={layout.width * zoom}
+      height={layout.height * zoom}
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      className={cn("block overflow-visible", className)}
+    >
+      {/* Opacity is applied per element, as in the exported PDF, rather than to the box as a whole */}
+      {style.backgroundColor && (
+        <rect width={layout.width} height={layout.height} fill={style.backgroundColor} fillOpacity={style.opacity} />
+      )}
+      <g
+        fill={style.color}
+        fillOpacity={style.opacity}
+        fontFamily={fontFamily}
+        fontSize={style.fontSize}
+        fontWeight={style.bold ? "bold" : "normal"}
+        fontStyle={style.italic ? "italic" : "normal"}
+      >
+        {layout.lines.map((line, index) =>
+          line.text ? (
+            <React.Fragment key={index}>
+              <text
+                x={line.x}
+                y={line.baseline}
+                textLength={line.width}
+                lengthAdjust="spacingAndGlyphs"
+                style={{ whiteSpace: "pre" }}
+              >
+                {line.text}
+              </text>
+              {style.underline && (
+                <rect
+                  x={line.x}
+                  y={line.baseline + style.fontSize * (UNDERLINE_OFFSET - UNDERLINE_THICKNESS / 2)}
+                  width={line.width}
+                  height={style.fontSize * UNDERLINE_THICKNESS}
+                />
+              )}
+            </React.Fragment>
+          ) : null,
+        )}
+      </g>
+    </svg>
+  )
+}
+
+export { TextBoxPreview }
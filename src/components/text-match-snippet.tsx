@@ -0,0 +1,19 @@
+import type { TextMatch } from "@/lib/text-search"
+import { cn } from "@/lib/utils"
+
+interface TextMatchSnippetProps {
+  match: TextMatch
+  className?: string
+}
+
+function TextMatchSnippet({ match, className }: TextMatchSnippetProps) {
+  return (
+    <span data-slot="text-match-snippet" className={cn("block break-words", className)}>
+      …{match.before}
+      <mark className="bg-yellow-200">{match.text}</mark>
+      {match.after}…
+    </span>
+  )
+}
+
+export { TextMatchSnippet }
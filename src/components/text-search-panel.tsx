@@ -0,0 +1,206 @@
+"use client"
+
+import * as React from "react"
+import { CloudyIcon as Blur, Eraser, Search, SquareDashed } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { TextMatchSnippet } from "@/components/text-match-snippet"
+import {
+  compileSearchQuery,
+  findTextMatches,
+  type PageText,
+  type SearchOptions,
+  type TextMatch,
+} from "@/lib/text-search"
+import { cn } from "@/lib/utils"
+
+type ApplyMode = "blur" | "erase" | "redact"
+
+const SEARCH_OPTIONS: { key: keyof SearchOptions; label: string }[] = [
+  { key: "matchCase", label: "Match case" },
+  { key: "wholeWord", label: "Whole words" },
+  { key: "useRegex", label: "Regex" },
+]
+
+interface TextSearchPanelProps {
+  pageCount: number
+  getPageText: (pageNumber: number) => Promise<PageText>
+  onMatchesChange: (matches: TextMatch[]) => void
+  onSelectMatch: (match: TextMatch) => void
+  onApply: (matches: TextMatch[], mode: ApplyMode) => void
+  className?: string
+}
+
+function TextSearchPanel({
+  pageCount,
+  getPageText,
+  onMatchesChange,
+  onSelectMatch,
+  onApply,
+  className,
+}: TextSearchPanelProps) {
+  const [query, setQuery] = React.useState("")
+  const [options, setOptions] = React.useState<SearchOptions>({ useRegex: false, matchCase: false, wholeWord: false })
+  const [matches, setMatches] = React.useState<TextMatch[] | null>(null)
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set())
+  const [isSearching, setIsSearching] = React.useState(false)
+  const [searchError, setSearchError] = React.useState<string | null>(null)
+
+  const updateMatches = (next: TextMatch[] | null) => {
+    setMatches(next)
+    onMatchesChange(next ?? [])
+  }
+
+  const search = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!query) return
+
+    let pattern: RegExp
+    try {
+      pattern = compileSearchQuery(query, options)
+    } catch {
+      setSearchError("This is not a valid regular expression.")
+      return
+    }
+
+    setSearchError(null)
+    setIsSearching(true)
+    try {
+      const found: TextMatch[] = []
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        found.push(...findTextMatches(await getPageText(pageNumber), pattern))
+      }
+      updateMatches(found)
+      setSelectedIds(new Set(found.map((match) => match.id)))
+    } catch (error) {
+      console.error("Error searching document:", error)
+      setSearchError("The document could not be searched.")
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (selected) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  // Applied hits leave the list, since they are now part of the page edits
+  const apply = (mode: ApplyMode) => {
+    if (!matches) return
+    onApply(matches.filter((match) => selectedIds.has(match.id)), mode)
+    updateMatches(matches.filter((match) => !selectedIds.has(match.id)))
+    setSelectedIds(new Set())
+  }
+
+  const selectedCount = matches?.filter((match) => selectedIds.has(match.id)).length ?? 0
+
+  return (
+    <div data-slot="text-search-panel" className={cn("space-y-3", className)}>
+      <h3 className="font-semibold">Find Text</h3>
+
+      <form onSubmit={search} className="space-y-2">
+        <div className="flex gap-1">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={options.useRegex ? "Regular expression" : "Search term"}
+            className={cn("h-9", options.useRegex && "font-mono")}
+            aria-invalid={Boolean(searchError)}
+          />
+          <Button type="submit" size="icon" disabled={!query || isSearching} aria-label="Search">
+            <Search className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {SEARCH_OPTIONS.map(({ key, label }) => (
+            <Label key={key} className="font-normal text-xs">
+              <input
+                type="checkbox"
+                checked={options[key]}
+                onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+                className="accent-blue-600"
+              />
+              {label}
+            </Label>
+          ))}
+        </div>
+      </form>
+
+      {isSearching && <p className="text-xs text-gray-500">Searching...</p>}
+
+      {searchError && (
+        <p role="alert" className="text-xs text-red-600">
+          {searchError}
+        </p>
+      )}
+
+      {matches && !isSearching && (
+        <>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{matches.length === 0 ? "No matches." : `${matches.length} matches, ${selectedCount} selected`}</span>
+            {matches.length > 0 && (
+              <button
+                type="button"
+                className="text-blue-600 hover:underline"
+                onClick={() =>
+                  setSelectedIds(selectedCount === matches.length ? new Set() : new Set(matches.map((match) => match.id)))
+                }
+              >
+                {selectedCount === matches.length ? "Select none" : "Select all"}
+              </button>
+            )}
+          </div>
+
+          {matches.length > 0 && (
+            <>
+              <ul className="max-h-80 overflow-y-auto space-y-2 pr-1">
+                {matches.map((match) => (
+                  <li key={match.id} className="flex gap-2 rounded-md border p-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(match.id)}
+                      onChange={(e) => toggleSelected(match.id, e.target.checked)}
+                      className="mt-0.5 accent-blue-600"
+                      aria-label={`Select match on page ${match.pageNumber}`}
+                    />
+                    <button type="button" onClick={() => onSelectMatch(match)} className="block flex-1 text-left">
+                      <span className="block text-gray-500">Page {match.pageNumber}</span>
+                      <TextMatchSnippet match={match} className="mt-1" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="grid grid-cols-3 gap-2">
+                <Button variant="outline" size="sm" onClick={() => apply("blur")} disabled={selectedCount === 0}>
+                  <Blur className="w-3 h-3 mr-1" />
+                  Blur
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => apply("erase")} disabled={selectedCount === 0}>
+                  <Eraser className="w-3 h-3 mr-1" />
+                  Erase
+                </Button>
+                <Button size="sm" onClick={() => apply("redact")} disabled={selectedCount === 0}>
+                  <SquareDashed className="w-3 h-3 mr-1" />
+                  Redact
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Blurred, erased and redacted matches are removed from the downloaded text.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export { TextSearchPanel }
@@ -0,0 +1,89 @@
+import { useCallback, useState } from "react"
+
+interface HistoryState<T> {
+  past: T[]
+  committed: T
+  present: T
+  future: T[]
+}
+
+const MAX_HISTORY = 100
+
+/**
+ * Undo/redo stack for editor state.
+ *
+ * `update` changes the present state without recording it, so continuous
+ * interactions (typing, dragging) can update live and become a single history
+ * entry once `commit` is called.
+ */
+export function useEditHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    committed: initial,
+    present: initial,
+    future: [],
+  })
+
+  const update = useCallback((updater: (prev: T) => T) => {
+    setHistory((prev) => ({ ...prev, present: updater(prev.present) }))
+  }, [])
+
+  const commit = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.present === prev.committed) return prev
+      return {
+        past: [...prev.past, prev.committed].slice(-MAX_HISTORY),
+        committed: prev.present,
+        present: prev.present,
+        future: [],
+      }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      // Uncommitted changes are discarded before stepping back
+      if (prev.present !== prev.committed) {
+        return { ...prev, present: prev.committed }
+      }
+      if (prev.past.length === 0) return prev
+
+      const previous = prev.past[prev.past.length - 1]
+      return {
+        past: prev.past.slice(0, -1),
+        committed: previous,
+        present: previous,
+        future: [prev.committed, ...prev.future],
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev
+
+      const [next, ...future] = prev.future
+      return {
+        past: [...prev.past, prev.committed],
+        committed: next,
+        present: next,
+        future,
+      }
+    })
+  }, [])
+
+  const reset = useCallback((state: T) => {
+    setHistory({ past: [], committed: state, present: state, future: [] })
+  }, [])
+
+  return {
+    state: history.present,
+    update,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0 || history.present !== history.committed,
+    canRedo: history.future.length > 0,
+  }
+}
@@ -0,0 +1,70 @@
+import { PdfFileError } from "@/lib/pdf"
+import { createZip, type ZipEntry } from "@/lib/zip"
+
+/** Which pages of each processed file get the edits of a template page. */
+export type PageRule = "same" | "first" | "last" | "all"
+
+/** The edits of one page of the open document, to be repeated on other files. */
+export interface TemplatePage<T> {
+  pageNumber: number
+  applyTo: PageRule
+  edits: T
+}
+
+/** The edits that go on a page of a file with `pageCount` pages, in template order. */
+export function getTemplateEdits<T>(template: TemplatePage<T>[], pageNumber: number, pageCount: number): T[] {
+  return template
+    .filter(({ applyTo, pageNumber: templatePageNumber }) => {
+      if (applyTo === "all") return true
+      if (applyTo === "first") return pageNumber === 1
+      if (applyTo === "last") return pageNumber === pageCount
+      return pageNumber === templatePageNumber
+    })
+    .map(({ edits }) => edits)
+}
+
+export interface BatchResult {
+  fileName: string
+  // Null when the file was processed
+  error: string | null
+}
+
+// Files from different folders can share a name, which a ZIP cannot hold twice
+const getUniqueName = (name: string, usedNames: Set<string>) => {
+  const extension = name.match(/\.[^.]*$/)?.[0] ?? ""
+  const base = name.slice(0, name.length - extension.length)
+  let uniqueName = name
+  for (let copy = 2; usedNames.has(uniqueName.toLowerCase()); copy++) uniqueName = `${base} (${copy})${extension}`
+  usedNames.add(uniqueName.toLowerCase())
+  return uniqueName
+}
+
+/**
+ * Processes files one at a time, so only one document is held in memory, and
+ * packs the results into a ZIP. A file that fails is reported and left out.
+ * Returns null if no file could be processed.
+ */
+export async function processBatch(
+  files: File[],
+  processFile: (file: File) => Promise<Uint8Array>,
+  onResult: (result: BatchResult) => void,
+) {
+  const entries: ZipEntry[] = []
+  const usedNames = new Set<string>()
+
+  for (const file of files) {
+    try {
+      const data = await processFile(file)
+      entries.push({ name: getUniqueName(file.name, usedNames), data })
+      onResult({ fileName: file.name, error: null })
+    } catch (error) {
+      console.error(`Error processing ${file.name}:`, error)
+      onResult({
+        fileName: file.name,
+        error: error instanceof PdfFileError ? error.message : `"${file.name}" could not be processed.`,
+      })
+    }
+  }
+
+  return entries.length > 0 ? createZip(entries) : null
+}
@@ -0,0 +1,161 @@
+import type { ImageStamp } from "@/lib/image-stamp"
+import type { MarkupAction } from "@/lib/markup"
+import type { AnnotationEdit, FormValue } from "@/lib/pdf-annotations"
+import type { TextStyle } from "@/lib/text-layout"
+
+// Edit coordinates and sizes are stored in PDF page units (points at zoom 1,
+// origin at the top-left of the page as displayed) so they are independent of
+// zoom level and screen density.
+
+// How a blurred area hides its content. Blur radius and block sizes are in page units.
+// Strokes and regions saved before there was a choice of style have none and are blurred.
+export type Obfuscation =
+  | { style?: "blur"; intensity: number }
+  | { style: "pixelate"; blockSize: number }
+  | { style: "noise"; blockSize: number }
+  | { style: "fill"; color: string }
+
+export type ObfuscationStyle = NonNullable<Obfuscation["style"]>
+
+export function isGaussianBlur(obfuscation: Obfuscation): obfuscation is Extract<Obfuscation, { intensity: number }> {
+  return !obfuscation.style || obfuscation.style === "blur"
+}
+
+export type BlurStroke = { x: number; y: number; size: number } & Obfuscation
+
+export interface EraseStroke {
+  x: number
+  y: number
+  size: number
+}
+
+export interface RedactRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+  color: string
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface PageRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type RegionShape =
+  | { kind: "rectangle"; x: number; y: number; width: number; height: number }
+  | { kind: "ellipse"; x: number; y: number; width: number; height: number }
+  | { kind: "lasso"; points: Point[] }
+
+export type EditAction =
+  | { type: "blur"; strokes: BlurStroke[] }
+  | { type: "erase"; strokes: EraseStroke[] }
+  | ({ type: "blur-region"; shape: RegionShape } & Obfuscation)
+  | { type: "erase-region"; shape: RegionShape }
+  | { type: "redact"; regions: RedactRegion[] }
+  | MarkupAction
+
+export interface TextBox extends TextStyle {
+  id: string
+  x: number
+  y: number
+  text: string
+  isEditing: boolean
+}
+
+// Padding around text box content, in page units
+export const TEXT_BOX_PADDING = 3
+
+// Merged documents are numbered in the order they were loaded, starting at 0
+export type PageSource =
+  | { type: "pdf"; documentIndex: number; pageNumber: number }
+  | { type: "blank"; width: number; height: number }
+
+export interface PageEntry {
+  id: string
+  source: PageSource
+  // Clockwise rotation in degrees on top of the page's own
+  rotation: number
+}
+
+// Edits are keyed by the page's current 1-based position and move with it when pages are rearranged
+export interface EditState {
+  pages: PageEntry[]
+  editActions: { [page: number]: EditAction[] }
+  textBoxes: { [page: number]: TextBox[] }
+  images: { [page: number]: ImageStamp[] }
+  // Changes to the PDF's own annotations, by PDF.js annotation id
+  annotationEdits: { [page: number]: { [id: string]: AnnotationEdit } }
+  // Values entered in form filling mode, by document index and field name, since a field can appear on several pages
+  formValues: { [documentIndex: number]: { [field: string]: FormValue } }
+}
+
+export const EMPTY_EDIT_STATE: EditState = {
+  pages: [],
+  editActions: {},
+  textBoxes: {},
+  images: {},
+  annotationEdits: {},
+  formValues: {},
+}
+
+const OBSCURING_TYPES: EditAction["type"][] = ["blur", "erase", "blur-region", "erase-region", "redact"]
+
+/** Whether an edit was made with one of the markup tools, rather than one that hides content. */
+export function isMarkupAction(action: EditAction): action is MarkupAction {
+  return !OBSCURING_TYPES.includes(action.type)
+}
+
+/** Every page of every document, one document after another. */
+export function createPageEntries(pageCounts: number[]): PageEntry[] {
+  return pageCounts.flatMap((count, documentIndex) =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `pdf-${documentIndex + 1}-${index + 1}`,
+      source: { type: "pdf", documentIndex, pageNumber: index + 1 },
+      rotation: 0,
+    })),
+  )
+}
+
+/** Parses ranges like "1-3, 5" into page numbers, or returns null if any part is out of range. */
+export function parsePageRange(range: string, pageCount: number) {
+  const pageNumbers: number[] = []
+  for (const part of range.split(",")) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+    if (!match) return null
+    const from = Number(match[1])
+    const to = Number(match[2] ?? match[1])
+    if (from < 1 || to > pageCount || from > to) return null
+    for (let pageNumber = from; pageNumber <= to; pageNumber++) {
+      if (!pageNumbers.includes(pageNumber)) pageNumbers.push(pageNumber)
+    }
+  }
+  return pageNumbers
+}
+
+export function rectsIntersect(a: PageRect, b: PageRect) {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+}
+
+export function getDragRect(start: Point, end: Point): PageRect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  }
+}
+
+export function getShapeBounds(shape: RegionShape): PageRect {
+  if (shape.kind !== "lasso") return { x: shape.x, y: shape.y, width: shape.width, height: shape.height }
+  const xs = shape.points.map((point) => point.x)
+  const ys = shape.points.map((point) => point.y)
+  return getDragRect({ x: Math.min(...xs), y: Math.min(...ys) }, { x: Math.max(...xs), y: Math.max(...ys) })
+}
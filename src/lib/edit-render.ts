@@ -0,0 +1,379 @@
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from "pdfjs-dist"
+
+import {
+  getShapeBounds,
+  isGaussianBlur,
+  isMarkupAction,
+  type BlurStroke,
+  type EditAction,
+  type EraseStroke,
+  type Obfuscation,
+  type PageEntry,
+  type PageRect,
+  type RedactRegion,
+  type RegionShape,
+} from "@/lib/edit-model"
+import { getArrowHead, getMarkupStroke, HIGHLIGHT_OPACITY, type MarkupAction } from "@/lib/markup"
+import { loadBlankPage, loadPdfJs } from "@/lib/pdf"
+
+/** Creates a canvas of the given size in pixels. */
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement
+
+let createCanvas: CanvasFactory = (width, height) => {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+/**
+ * Replaces the document as the source of the canvases edits are rendered on.
+ * Outside the browser there is no document, so a canvas library has to be set
+ * up before anything is rendered or exported.
+ */
+export function setCanvasFactory(factory: CanvasFactory) {
+  createCanvas = factory
+}
+
+/** The PDF.js page an entry shows, from one of the loaded documents or a blank sheet. */
+export async function getSourcePage(pdfjsDocs: PDFDocumentProxy[], entry: PageEntry) {
+  if (entry.source.type === "blank") return loadBlankPage(entry.source.width, entry.source.height)
+  const pdfDoc = pdfjsDocs[entry.source.documentIndex]
+  if (!pdfDoc) throw new Error("No document is loaded")
+  return pdfDoc.getPage(entry.source.pageNumber)
+}
+
+/** The page's viewport with the entry's rotation on top of the page's own. */
+export function getPageViewport(page: PDFPageProxy, entry: PageEntry, scale: number) {
+  return page.getViewport({ scale, rotation: (page.rotate + entry.rotation) % 360 })
+}
+
+/** Bounds of the area a blur or erase action hides, clipped to the page. */
+export function getHiddenBounds(action: EditAction, viewport: PageViewport): PageRect | null {
+  let bounds: PageRect
+  if (action.type === "blur" || action.type === "erase") {
+    if (action.strokes.length === 0) return null
+    const left = Math.min(...action.strokes.map((stroke) => stroke.x - stroke.size / 2))
+    const top = Math.min(...action.strokes.map((stroke) => stroke.y - stroke.size / 2))
+    const right = Math.max(...action.strokes.map((stroke) => stroke.x + stroke.size / 2))
+    const bottom = Math.max(...action.strokes.map((stroke) => stroke.y + stroke.size / 2))
+    bounds = { x: left, y: top, width: right - left, height: bottom - top }
+  } else if (action.type === "blur-region" || action.type === "erase-region") {
+    bounds = getShapeBounds(action.shape)
+  } else {
+    return null
+  }
+
+  const left = Math.max(0, bounds.x)
+  const top = Math.max(0, bounds.y)
+  const right = Math.min(viewport.width, bounds.x + bounds.width)
+  const bottom = Math.min(viewport.height, bounds.y + bounds.height)
+  if (right <= left || bottom <= top) return null
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/** The part of a rendered page inside `rect`, as a PNG data URL. */
+export function cropCanvas(canvas: HTMLCanvasElement, rect: PageRect, scale: number) {
+  const x = Math.floor(rect.x * scale)
+  const y = Math.floor(rect.y * scale)
+  const width = Math.max(1, Math.ceil((rect.x + rect.width) * scale) - x)
+  const height = Math.max(1, Math.ceil((rect.y + rect.height) * scale) - y)
+  const patch = createCanvas(width, height)
+  patch.getContext("2d")?.drawImage(canvas, x, y, width, height, 0, 0, width, height)
+  return patch.toDataURL("image/png")
+}
+
+// Noise blocks range from mid to light gray, whatever was underneath
+const NOISE_MIN_LEVEL = 128
+
+// Pseudo-random value in [0, 1) for a block, so an area gets the same noise every time it is drawn
+const hashBlock = (column: number, row: number) => {
+  let hash = Math.imul(column, 374761393) + Math.imul(row, 668265263)
+  hash = Math.imul(hash ^ (hash >>> 13), 1274126177)
+  return ((hash ^ (hash >>> 16)) >>> 0) / 4294967296
+}
+
+/*
+ * Edit renderers draw in canvas pixels: page-unit coordinates are multiplied
+ * by `scale`, the number of canvas pixels per page unit.
+ */
+
+/**
+ * Hides the content of `rect` in one of the styles that, unlike blur, keep
+ * nothing that could be sharpened back into text. Draws within the context's
+ * current clip. Blocks line up on a page-wide grid, so overlapping brush dabs
+ * agree with each other and the export matches the editor.
+ */
+const applyObfuscation = (
+  obfuscation: Exclude<Obfuscation, { intensity: number }>,
+  rect: PageRect,
+  context: CanvasRenderingContext2D,
+  originalCanvas: HTMLCanvasElement,
+  scale: number,
+) => {
+  context.save()
+  if (obfuscation.style === "fill") {
+    context.fillStyle = obfuscation.color
+    context.fillRect(rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale)
+    context.restore()
+    return
+  }
+
+  const { blockSize } = obfuscation
+  const firstColumn = Math.floor(rect.x / blockSize)
+  const firstRow = Math.floor(rect.y / blockSize)
+  const columns = Math.ceil((rect.x + rect.width) / blockSize) - firstColumn
+  const rows = Math.ceil((rect.y + rect.height) / blockSize) - firstRow
+
+  // One pixel per block, drawn scaled up without smoothing
+  const blocks = columns > 0 && rows > 0 ? createCanvas(columns, rows) : null
+  const blockContext = blocks?.getContext("2d")
+  if (blocks && blockContext) {
+    if (obfuscation.style === "pixelate") {
+      blockContext.imageSmoothingQuality = "high"
+      blockContext.drawImage(
+        originalCanvas,
+        firstColumn * blockSize * scale,
+        firstRow * blockSize * scale,
+        columns * blockSize * scale,
+        rows * blockSize * scale,
+        0,
+        0,
+        columns,
+        rows,
+      )
+    } else {
+      const image = blockContext.createImageData(columns, rows)
+      for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+          const level = NOISE_MIN_LEVEL + hashBlock(firstColumn + column, firstRow + row) * (255 - NOISE_MIN_LEVEL)
+          const offset = (row * columns + column) * 4
+          image.data.fill(level, offset, offset + 3)
+          image.data[offset + 3] = 255
+        }
+      }
+      blockContext.putImageData(image, 0, 0)
+    }
+
+    context.imageSmoothingEnabled = false
+    context.drawImage(
+      blocks,
+      firstColumn * blockSize * scale,
+      firstRow * blockSize * scale,
+      columns * blockSize * scale,
+      rows * blockSize * scale,
+    )
+  }
+  context.restore()
+}
+
+export function applyBlurStrokes(
+  strokes: BlurStroke[],
+  context: CanvasRenderingContext2D,
+  originalCanvas: HTMLCanvasElement,
+  scale: number,
+) {
+  strokes.forEach((stroke) => {
+    if (!isGaussianBlur(stroke)) {
+      const half = stroke.size / 2
+      const rect = { x: stroke.x - half, y: stroke.y - half, width: stroke.size, height: stroke.size }
+      context.save()
+      context.beginPath()
+      context.rect(rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale)
+      context.clip()
+      applyObfuscation(stroke, rect, context, originalCanvas, scale)
+      context.restore()
+      return
+    }
+
+    const size = stroke.size * scale
+    const tempCanvas = createCanvas(size, size)
+    const tempContext = tempCanvas.getContext("2d")
+    if (!tempContext) return
+
+    const sourceX = Math.max(0, (stroke.x - stroke.size / 2) * scale)
+    const sourceY = Math.max(0, (stroke.y - stroke.size / 2) * scale)
+    const sourceWidth = Math.min(size, originalCanvas.width - sourceX)
+    const sourceHeight = Math.min(size, originalCanvas.height - sourceY)
+
+    if (sourceWidth > 0 && sourceHeight > 0) {
+      tempContext.drawImage(
+        originalCanvas,
+        sourceX,
+        sourceY,
+        sourceWidth,
+        sourceHeight,
+        0,
+        0,
+        sourceWidth,
+        sourceHeight,
+      )
+
+      context.save()
+      context.filter = `blur(${stroke.intensity * scale}px)`
+      context.drawImage(tempCanvas, sourceX, sourceY)
+      context.restore()
+    }
+  })
+}
+
+export function applyEraseStrokes(strokes: EraseStroke[], context: CanvasRenderingContext2D, scale: number) {
+  strokes.forEach((stroke) => {
+    context.save()
+    context.fillStyle = "#ffffff"
+    context.beginPath()
+    context.arc(stroke.x * scale, stroke.y * scale, (stroke.size / 2) * scale, 0, 2 * Math.PI)
+    context.fill()
+    context.restore()
+  })
+}
+
+const traceRegionPath = (shape: RegionShape, context: CanvasRenderingContext2D, scale: number) => {
+  context.beginPath()
+  if (shape.kind === "rectangle") {
+    context.rect(shape.x * scale, shape.y * scale, shape.width * scale, shape.height * scale)
+  } else if (shape.kind === "ellipse") {
+    const radiusX = (shape.width / 2) * scale
+    const radiusY = (shape.height / 2) * scale
+    context.ellipse(shape.x * scale + radiusX, shape.y * scale + radiusY, radiusX, radiusY, 0, 0, 2 * Math.PI)
+  } else {
+    shape.points.forEach((point, index) => {
+      if (index === 0) context.moveTo(point.x * scale, point.y * scale)
+      else context.lineTo(point.x * scale, point.y * scale)
+    })
+    context.closePath()
+  }
+}
+
+const applyBlurRegion = (
+  shape: RegionShape,
+  obfuscation: Obfuscation,
+  context: CanvasRenderingContext2D,
+  originalCanvas: HTMLCanvasElement,
+  scale: number,
+) => {
+  context.save()
+  traceRegionPath(shape, context, scale)
+  context.clip()
+  if (isGaussianBlur(obfuscation)) {
+    context.filter = `blur(${obfuscation.intensity * scale}px)`
+    context.drawImage(originalCanvas, 0, 0)
+  } else {
+    applyObfuscation(obfuscation, getShapeBounds(shape), context, originalCanvas, scale)
+  }
+  context.restore()
+}
+
+const applyEraseRegion = (shape: RegionShape, context: CanvasRenderingContext2D, scale: number) => {
+  context.save()
+  context.fillStyle = "#ffffff"
+  traceRegionPath(shape, context, scale)
+  context.fill()
+  context.restore()
+}
+
+// Redactions are opaque fills; redacted pages are rasterized on export so nothing survives underneath
+const applyRedactRegions = (regions: RedactRegion[], context: CanvasRenderingContext2D, scale: number) => {
+  regions.forEach((region) => {
+    context.save()
+    context.globalAlpha = 1
+    context.fillStyle = region.color
+    context.fillRect(region.x * scale, region.y * scale, region.width * scale, region.height * scale)
+    context.restore()
+  })
+}
+
+const applyMarkup = (markup: MarkupAction, context: CanvasRenderingContext2D, scale: number) => {
+  context.save()
+  context.fillStyle = context.strokeStyle = markup.color
+  context.lineCap = "round"
+  context.lineJoin = "round"
+
+  if (markup.type === "highlight") {
+    context.globalAlpha = HIGHLIGHT_OPACITY
+    context.globalCompositeOperation = "multiply"
+    context.fillRect(markup.x * scale, markup.y * scale, markup.width * scale, markup.height * scale)
+  } else {
+    context.lineWidth = markup.strokeWidth * scale
+    context.beginPath()
+    if (markup.type === "rectangle") {
+      context.rect(markup.x * scale, markup.y * scale, markup.width * scale, markup.height * scale)
+    } else if (markup.type === "ellipse") {
+      const radiusX = (markup.width / 2) * scale
+      const radiusY = (markup.height / 2) * scale
+      context.ellipse(markup.x * scale + radiusX, markup.y * scale + radiusY, radiusX, radiusY, 0, 0, 2 * Math.PI)
+    } else {
+      getMarkupStroke(markup).forEach((point, index) => {
+        if (index === 0) context.moveTo(point.x * scale, point.y * scale)
+        else context.lineTo(point.x * scale, point.y * scale)
+      })
+    }
+    context.stroke()
+
+    if (markup.type === "arrow") {
+      context.beginPath()
+      getArrowHead(markup).forEach((point) => context.lineTo(point.x * scale, point.y * scale))
+      context.fill()
+    }
+  }
+  context.restore()
+}
+
+/** Draws edits onto a render of their page, sampling the unedited render for blurs. */
+export function applyEditActions(
+  actions: EditAction[],
+  context: CanvasRenderingContext2D,
+  originalCanvas: HTMLCanvasElement,
+  scale: number,
+) {
+  actions.forEach((action) => {
+    if (action.type === "blur") {
+      applyBlurStrokes(action.strokes, context, originalCanvas, scale)
+    } else if (action.type === "erase") {
+      applyEraseStrokes(action.strokes, context, scale)
+    } else if (action.type === "blur-region") {
+      applyBlurRegion(action.shape, action, context, originalCanvas, scale)
+    } else if (action.type === "erase-region") {
+      applyEraseRegion(action.shape, context, scale)
+    } else if (isMarkupAction(action)) {
+      applyMarkup(action, context, scale)
+    }
+  })
+
+  // Blur samples the original render, so redactions go last to keep anything from bleeding through
+  actions.forEach((action) => {
+    if (action.type === "redact") {
+      applyRedactRegions(action.regions, context, scale)
+    }
+  })
+}
+
+/**
+ * Renders a page with its edits into an offscreen canvas, independent of the
+ * editor's zoom. The page's annotations are left out unless `includeAnnotations`
+ * is set, since they are kept as annotations on export.
+ */
+export async function renderPageWithEdits(
+  page: PDFPageProxy,
+  entry: PageEntry,
+  actions: EditAction[],
+  scale: number,
+  includeAnnotations = false,
+) {
+  const { AnnotationMode } = await loadPdfJs()
+  const viewport = getPageViewport(page, entry, scale)
+  const width = Math.ceil(viewport.width)
+  const height = Math.ceil(viewport.height)
+  const originalCanvas = createCanvas(width, height)
+  const canvas = createCanvas(width, height)
+
+  const originalContext = originalCanvas.getContext("2d")
+  const context = canvas.getContext("2d")
+  if (!originalContext || !context) throw new Error("Canvas 2D context is not available")
+
+  const annotationMode = includeAnnotations ? AnnotationMode.ENABLE : AnnotationMode.DISABLE
+  await page.render({ canvasContext: originalContext, viewport, annotationMode }).promise
+  context.drawImage(originalCanvas, 0, 0)
+  applyEditActions(actions, context, originalCanvas, scale)
+  return canvas
+}
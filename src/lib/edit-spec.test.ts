@@ -0,0 +1,167 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import { checkSavedEdits, createEditState, EditSpecError, parseEditSpec, pickTextStyle } from "@/lib/edit-spec"
+import { DEFAULT_TEXT_STYLE } from "@/lib/text-layout"
+
+const highlight = { type: "highlight", x: 10, y: 10, width: 100, height: 12, color: "#facc15" }
+
+const blurStrokes = (count: number, stroke: object = { intensity: 5 }) =>
+  Array.from({ length: count }, (_, index) => ({ x: index % 500, y: 20, size: 10, ...stroke }))
+
+const parse = (spec: object) => parseEditSpec(JSON.stringify(spec))
+
+const rejects = (spec: object, message: string) =>
+  assert.throws(() => parse(spec), (error) => error instanceof EditSpecError && error.message === message)
+
+describe("parseEditSpec", () => {
+  it("returns a spec whose edits are valid", () => {
+    const spec = {
+      editActions: { 1: [highlight, { type: "blur", strokes: blurStrokes(3, { style: "pixelate", blockSize: 8 }) }] },
+      textBoxes: { 2: [{ x: 50, y: 60, text: "Approved", bold: true }] },
+      annotationEdits: { 1: { "12R": { deleted: true } } },
+      formValues: { name: "Ada", agree: true },
+      mode: "annotate",
+    }
+    assert.deepEqual(parse(spec), spec)
+  })
+
+  it("rejects text that is not a JSON object", () => {
+    assert.throws(() => parseEditSpec("{"), { message: "The edit spec is not valid JSON." })
+    assert.throws(() => parseEditSpec("[]"), { message: "The edit spec must be a JSON object." })
+  })
+
+  it("rejects edits that are not by page number", () => {
+    rejects({ editActions: [] }, `"editActions" must be an object keyed by page number.`)
+    rejects({ editActions: { first: [] } }, `"editActions" has edits for "first", which is not a page number.`)
+    rejects({ editActions: { 0: [] } }, `"editActions" has edits for "0", which is not a page number.`)
+    rejects({ textBoxes: { 1: {} } }, `"textBoxes" for page 1 must be a list.`)
+    rejects({ annotationEdits: { 1: [] } }, `"annotationEdits" for page 1 must be an object.`)
+  })
+
+  it("names the first edit that is not valid", () => {
+    const yellow = { ...highlight, color: "yellow" }
+    rejects({ editActions: { 3: [highlight, yellow] } }, "The edit number 2 on page 3 is not valid.")
+    rejects({ editActions: { 1: [{ type: "sparkle" }] } }, "The edit number 1 on page 1 is not valid.")
+    const textBox = { x: 0, y: 0, text: "A", fontFamily: "Comic Sans" }
+    rejects({ textBoxes: { 1: [textBox] } }, "The text box number 1 on page 1 is not valid.")
+    const gif = { x: 0, y: 0, width: 10, height: 10, src: "data:image/gif;base64,R0lG" }
+    rejects({ images: { 1: [gif] } }, "The image number 1 on page 1 is not valid.")
+    const message = `The annotation edit for annotation "4R" on page 1 is not valid.`
+    rejects({ annotationEdits: { 1: { "4R": { color: "red" } } } }, message)
+  })
+
+  it("rejects blocks smaller than the editor offers", () => {
+    const noise = (blockSize: number) => ({ type: "blur", strokes: blurStrokes(1, { style: "noise", blockSize }) })
+    rejects({ editActions: { 1: [noise(1)] } }, "The edit number 1 on page 1 is not valid.")
+    assert.doesNotThrow(() => parse({ editActions: { 1: [noise(2)] } }))
+  })
+
+  it("limits the edits on a page and the points in one edit", () => {
+    assert.doesNotThrow(() => parse({ editActions: { 1: Array(1000).fill(highlight) } }))
+    rejects({ editActions: { 1: Array(1001).fill(highlight) } }, `"editActions" for page 1 has more than 1000 entries.`)
+
+    assert.doesNotThrow(() => parse({ editActions: { 1: [{ type: "erase", strokes: blurStrokes(10000) }] } }))
+    const erase = { type: "erase", strokes: blurStrokes(10001) }
+    rejects({ editActions: { 1: [erase] } }, "The edit number 1 on page 1 is not valid.")
+    const pen = { type: "pen", color: "#000000", strokeWidth: 2, points: blurStrokes(10001) }
+    rejects({ editActions: { 1: [pen] } }, "The edit number 1 on page 1 is not valid.")
+  })
+
+  it("limits the strokes and points in all of a page's edits", () => {
+    const blur = { type: "blur", strokes: blurStrokes(5000) }
+    assert.doesNotThrow(() => parse({ editActions: { 1: [blur, blur] } }))
+    const message = "The edits on page 1 have more than 10000 strokes and points."
+    rejects({ editActions: { 1: [blur, blur, highlight] } }, message)
+  })
+
+  it("limits the strokes and points in all of a spec's edits", () => {
+    const page = [{ type: "erase", strokes: blurStrokes(10000) }]
+    const pages = (count: number) => Object.fromEntries(Array.from({ length: count }, (_, index) => [index + 1, page]))
+    assert.doesNotThrow(() => parse({ editActions: pages(5) }))
+    rejects({ editActions: pages(6) }, "The edits have more than 50000 strokes and points in all.")
+  })
+
+  it("rejects export options that are not valid", () => {
+    rejects({ mode: "print" }, `"mode" must be one of "flatten", "annotate".`)
+    rejects({ flattenForm: "yes" }, `"flattenForm" must be true or false.`)
+    rejects({ formValues: { name: 3 } }, `"formValues" must map field names to text or true/false.`)
+  })
+})
+
+describe("checkSavedEdits", () => {
+  const pages = [
+    { id: "a", rotation: 90, source: { type: "pdf", documentIndex: 1, pageNumber: 2 } },
+    { id: "b", rotation: 0, source: { type: "pdf", pageNumber: 3 } },
+    { id: "c", rotation: 0, source: { type: "blank", width: 612, height: 792 } },
+  ]
+
+  it("accepts pages from the project's documents", () => {
+    assert.doesNotThrow(() => checkSavedEdits({ pages, formValues: { 0: { name: "Ada" } } }, [3, 2]))
+  })
+
+  it("rejects pages the documents lack", () => {
+    const check = (entry: object) => () => checkSavedEdits({ pages: [entry] }, [3, 2])
+    const message = { message: "The page list is not valid." }
+    assert.throws(check({ ...pages[0], source: { type: "pdf", documentIndex: 1, pageNumber: 3 } }), message)
+    assert.throws(check({ ...pages[0], source: { type: "pdf", documentIndex: 2, pageNumber: 1 } }), message)
+    assert.throws(check({ ...pages[0], rotation: 45 }), message)
+    assert.throws(check({ ...pages[2], source: { type: "blank", width: 0, height: 792 } }), message)
+  })
+
+  it("checks the edits as a spec's are", () => {
+    assert.throws(() => checkSavedEdits({ formValues: { 0: { name: 3 } } }, [1]), {
+      message: "The form values are not valid.",
+    })
+    assert.throws(() => checkSavedEdits({ editActions: { 1: [{ ...highlight, width: -1 }] } }, [1]), {
+      message: "The edit number 1 on page 1 is not valid.",
+    })
+  })
+})
+
+describe("createEditState", () => {
+  const letter = { width: 612, height: 792 }
+
+  it("gives text boxes and images the editor's defaults and ids", () => {
+    const spec = parse({
+      textBoxes: { 2: [{ x: 50, y: 60, text: "Approved", fontSize: 18 }] },
+      images: { 1: [{ x: 0, y: 0, width: 40, height: 20, src: "data:image/png;base64,iVBORw0KGgo=" }] },
+      formValues: { name: "Ada" },
+    })
+    const state = createEditState(spec, [letter, letter])
+
+    assert.equal(state.pages.length, 2)
+    assert.deepEqual(state.textBoxes[2], [
+      { ...DEFAULT_TEXT_STYLE, x: 50, y: 60, text: "Approved", fontSize: 18, id: "spec-text-2-1", isEditing: false },
+    ])
+    assert.equal(state.images[1][0].id, "spec-image-1-1")
+    assert.equal(state.images[1][0].rotation, 0)
+    assert.deepEqual(state.formValues, { 0: { name: "Ada" } })
+  })
+
+  it("rejects edits for pages the PDF lacks", () => {
+    assert.throws(() => createEditState(parse({ editActions: { 3: [highlight] } }), [letter, letter]), {
+      message: `"editActions" has edits for page 3, but the PDF has 2 pages.`,
+    })
+  })
+
+  it("rejects edits larger than their page", () => {
+    assert.throws(() => createEditState(parse({ editActions: { 1: [{ ...highlight, width: 800 }] } }), [letter]), {
+      message: "The edit number 1 on page 1 is larger than the page.",
+    })
+    const blur = { type: "blur", strokes: blurStrokes(1, { intensity: 1000 }) }
+    assert.throws(() => createEditState(parse({ editActions: { 1: [blur] } }), [letter]), {
+      message: "The edit number 1 on page 1 is larger than the page.",
+    })
+  })
+})
+
+describe("pickTextStyle", () => {
+  it("keeps the valid properties and leaves out the rest", () => {
+    assert.deepEqual(pickTextStyle({ fontFamily: "Comic Sans", fontSize: 14, bold: "yes", color: "#ff0000" }), {
+      fontSize: 14,
+      color: "#ff0000",
+    })
+    assert.deepEqual(pickTextStyle("bold"), {})
+  })
+})
@@ -0,0 +1,429 @@
+import { PDFDocument } from "pdf-lib"
+
+import {
+  createPageEntries,
+  getShapeBounds,
+  isGaussianBlur,
+  type EditAction,
+  type EditState,
+  type Obfuscation,
+  type TextBox,
+} from "@/lib/edit-model"
+import type { ImageStamp } from "@/lib/image-stamp"
+import type { AnnotationEdit, FormValue } from "@/lib/pdf-annotations"
+import type { ExportMode } from "@/lib/pdf-export"
+import { DEFAULT_TEXT_STYLE, FONT_FAMILIES, type TextStyle } from "@/lib/text-layout"
+
+/** A text box in an edit spec. Styles left out take the editor's defaults. */
+export type TextBoxSpec = Pick<TextBox, "x" | "y" | "text"> & Partial<TextStyle>
+
+/** An image stamp in an edit spec, which needs no id and is upright unless rotated. */
+export type ImageStampSpec = Omit<ImageStamp, "id" | "rotation"> & Partial<Pick<ImageStamp, "rotation">>
+
+/**
+ * Edits for one PDF, written as JSON to be applied without the editor. Pages
+ * are numbered from 1 and edits are in page units, in the same shapes as the
+ * editor's own edit state. Form values are by field name.
+ */
+export interface EditSpec {
+  editActions?: { [page: number]: EditAction[] }
+  textBoxes?: { [page: number]: TextBoxSpec[] }
+  images?: { [page: number]: ImageStampSpec[] }
+  annotationEdits?: { [page: number]: { [id: string]: AnnotationEdit } }
+  formValues?: { [field: string]: FormValue }
+  mode?: ExportMode
+  flattenForm?: boolean
+}
+
+/** An edit spec that cannot be applied, with a message that can be shown to the user as-is. */
+export class EditSpecError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "EditSpecError"
+  }
+}
+
+const EXPORT_MODES: ExportMode[] = ["flatten", "annotate"]
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isPageNumber = (key: string) => /^[1-9]\d*$/.test(key)
+
+// Most edits of one kind a page can have, and most points in a stroke or outline. The editor
+// stays well under both; they keep one spec from tying up the export for everyone else.
+const MAX_PAGE_EDITS = 1000
+const MAX_POINTS = 10000
+
+// Most strokes, points and regions in all of a page's edits, and in all of a spec's. The limits
+// above only bound one edit or one list, and every blur stroke is rendered on a canvas of its own.
+const MAX_PAGE_POINTS = 10000
+const MAX_SPEC_POINTS = 50000
+
+// The smallest block the editor offers. Smaller blocks over a large area take a huge canvas.
+const MIN_BLOCK_SIZE = 2
+
+/*
+ * Checks for the shapes of the edits. A spec can come from another service, so
+ * anything the renderers would trip over, or draw as garbage, is rejected here.
+ */
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+const isPositive = (value: unknown) => isNumber(value) && value > 0
+
+const isColor = (value: unknown) => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value)
+
+const isPoint = (value: unknown) => isRecord(value) && isNumber(value.x) && isNumber(value.y)
+
+const isPointList = (value: unknown): value is unknown[] =>
+  Array.isArray(value) && value.length <= MAX_POINTS && value.every(isPoint)
+
+const isBox = (value: Record<string, unknown>) =>
+  isNumber(value.x) &&
+  isNumber(value.y) &&
+  isNumber(value.width) &&
+  isNumber(value.height) &&
+  value.width >= 0 &&
+  value.height >= 0
+
+const isStrokeStyle = (value: Record<string, unknown>) => isColor(value.color) && isPositive(value.strokeWidth)
+
+const isShape = (shape: unknown) => {
+  if (!isRecord(shape)) return false
+  if (shape.kind === "lasso") return isPointList(shape.points) && shape.points.length >= 3
+  return (shape.kind === "rectangle" || shape.kind === "ellipse") && isBox(shape)
+}
+
+const isObfuscation = (value: Record<string, unknown>) => {
+  if (value.style === undefined || value.style === "blur") return isNumber(value.intensity) && value.intensity >= 0
+  if (value.style === "pixelate" || value.style === "noise") {
+    return isNumber(value.blockSize) && value.blockSize >= MIN_BLOCK_SIZE
+  }
+  return value.style === "fill" && isColor(value.color)
+}
+
+const isBrushStroke = (stroke: unknown) => isPoint(stroke) && isPositive((stroke as Record<string, unknown>).size)
+
+// Edits with no list of their own count once
+const countPoints = (action: Record<string, unknown>) => {
+  const lists = [action.strokes, action.points, action.regions, isRecord(action.shape) ? action.shape.points : null]
+  return lists.reduce((count: number, list) => count + (Array.isArray(list) ? list.length : 0), 0) || 1
+}
+
+const isEditAction = (action: unknown) => {
+  if (!isRecord(action)) return false
+  const { strokes } = action
+  if (Array.isArray(strokes) && strokes.length > MAX_POINTS) return false
+  switch (action.type) {
+    case "blur":
+      return Array.isArray(strokes) && strokes.every((stroke) => isBrushStroke(stroke) && isObfuscation(stroke))
+    case "erase":
+      return Array.isArray(strokes) && strokes.every(isBrushStroke)
+    case "blur-region":
+      return isShape(action.shape) && isObfuscation(action)
+    case "erase-region":
+      return isShape(action.shape)
+    case "redact":
+      return (
+        Array.isArray(action.regions) &&
+        action.regions.length <= MAX_PAGE_EDITS &&
+        action.regions.every((region) => isRecord(region) && isBox(region) && isColor(region.color))
+      )
+    case "highlight":
+      return isBox(action) && isColor(action.color)
+    case "rectangle":
+    case "ellipse":
+      return isBox(action) && isStrokeStyle(action)
+    case "underline":
+    case "strikeout":
+    case "line":
+    case "arrow":
+      return isPoint(action.start) && isPoint(action.end) && isStrokeStyle(action)
+    case "pen":
+      return isPointList(action.points) && action.points.length > 0 && isStrokeStyle(action)
+    default:
+      return false
+  }
+}
+
+// Style properties a text box may leave out, with the check for each
+const TEXT_STYLE_CHECKS: { [key in keyof TextStyle]: (value: unknown) => boolean } = {
+  fontFamily: (value) => FONT_FAMILIES.some((family) => family.value === value),
+  bold: (value) => typeof value === "boolean",
+  italic: (value) => typeof value === "boolean",
+  fontSize: isPositive,
+  color: isColor,
+  underline: (value) => typeof value === "boolean",
+  align: (value) => value === "left" || value === "center" || value === "right",
+  width: (value) => value === null || isPositive(value),
+  lineHeight: isPositive,
+  opacity: (value) => isNumber(value) && value >= 0 && value <= 1,
+  backgroundColor: (value) => value === null || isColor(value),
+}
+
+const isTextBoxSpec = (textBox: unknown) =>
+  isRecord(textBox) &&
+  isPoint(textBox) &&
+  typeof textBox.text === "string" &&
+  Object.entries(TEXT_STYLE_CHECKS).every(([key, check]) => textBox[key] === undefined || check(textBox[key]))
+
+// pdf-lib can only embed PNG and JPEG images
+const isImageStampSpec = (stamp: unknown) =>
+  isRecord(stamp) &&
+  isPoint(stamp) &&
+  isPositive(stamp.width) &&
+  isPositive(stamp.height) &&
+  (stamp.rotation === undefined || isNumber(stamp.rotation)) &&
+  typeof stamp.src === "string" &&
+  /^data:image\/(png|jpeg);base64,/.test(stamp.src)
+
+const isAnnotationEdit = (edit: unknown) =>
+  isRecord(edit) &&
+  (edit.deleted === undefined || typeof edit.deleted === "boolean") &&
+  (edit.contents === undefined || typeof edit.contents === "string") &&
+  (edit.color === undefined || isColor(edit.color))
+
+// The edits kept by page number, with the check for each edit and how it is called in messages
+const PAGE_EDITS = {
+  editActions: { isValid: isEditAction, name: "edit" },
+  textBoxes: { isValid: isTextBoxSpec, name: "text box" },
+  images: { isValid: isImageStampSpec, name: "image" },
+  annotationEdits: { isValid: isAnnotationEdit, name: "annotation edit" },
+}
+
+const PAGE_KEYS = Object.keys(PAGE_EDITS) as (keyof typeof PAGE_EDITS)[]
+
+const isFormValue = (value: unknown) => typeof value === "string" || typeof value === "boolean"
+
+/** Checks the edits kept by page number. Throws an EditSpecError for the first that is not valid. */
+const checkPageEdits = (data: Record<string, unknown>) => {
+  let specPoints = 0
+  for (const key of PAGE_KEYS) {
+    const pages = data[key]
+    if (pages === undefined) continue
+    if (!isRecord(pages)) {
+      throw new EditSpecError(`"${key}" must be an object keyed by page number.`)
+    }
+
+    const { isValid, name } = PAGE_EDITS[key]
+    for (const page of Object.keys(pages)) {
+      if (!isPageNumber(page)) {
+        throw new EditSpecError(`"${key}" has edits for "${page}", which is not a page number.`)
+      }
+      // Annotation edits are by annotation id rather than in a list
+      const edits = pages[page]
+      if (key === "annotationEdits" ? !isRecord(edits) : !Array.isArray(edits)) {
+        const expected = key === "annotationEdits" ? "an object" : "a list"
+        throw new EditSpecError(`"${key}" for page ${page} must be ${expected}.`)
+      }
+      if (Object.keys(edits as object).length > MAX_PAGE_EDITS) {
+        throw new EditSpecError(`"${key}" for page ${page} has more than ${MAX_PAGE_EDITS} entries.`)
+      }
+      Object.entries(edits as object).forEach(([item, edit]) => {
+        if (isValid(edit)) return
+        const label = key === "annotationEdits" ? `for annotation "${item}"` : `number ${Number(item) + 1}`
+        throw new EditSpecError(`The ${name} ${label} on page ${page} is not valid.`)
+      })
+
+      if (key !== "editActions") continue
+      const pagePoints = (edits as Record<string, unknown>[]).reduce((count, action) => count + countPoints(action), 0)
+      if (pagePoints > MAX_PAGE_POINTS) {
+        throw new EditSpecError(`The edits on page ${page} have more than ${MAX_PAGE_POINTS} strokes and points.`)
+      }
+      specPoints += pagePoints
+      if (specPoints > MAX_SPEC_POINTS) {
+        throw new EditSpecError(`The edits have more than ${MAX_SPEC_POINTS} strokes and points in all.`)
+      }
+    }
+  }
+}
+
+/**
+ * Parses an edit spec and checks it against the shapes of the edits and the
+ * export options, so a spec that passes can be exported as it is.
+ */
+export function parseEditSpec(text: string): EditSpec {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new EditSpecError("The edit spec is not valid JSON.")
+  }
+  if (!isRecord(data)) {
+    throw new EditSpecError("The edit spec must be a JSON object.")
+  }
+
+  checkPageEdits(data)
+
+  const { formValues, mode, flattenForm } = data
+  if (formValues !== undefined) {
+    if (!isRecord(formValues) || !Object.values(formValues).every(isFormValue)) {
+      throw new EditSpecError(`"formValues" must map field names to text or true/false.`)
+    }
+  }
+  if (mode !== undefined && !EXPORT_MODES.includes(mode as ExportMode)) {
+    throw new EditSpecError(`"mode" must be one of ${EXPORT_MODES.map((exportMode) => `"${exportMode}"`).join(", ")}.`)
+  }
+  if (flattenForm !== undefined && typeof flattenForm !== "boolean") {
+    throw new EditSpecError(`"flattenForm" must be true or false.`)
+  }
+
+  return data as EditSpec
+}
+
+// Projects saved before documents could be merged have no document index
+const isPageEntry = (entry: unknown, pageCounts: number[]) => {
+  if (!isRecord(entry) || typeof entry.id !== "string" || !isNumber(entry.rotation) || entry.rotation % 90 !== 0) {
+    return false
+  }
+  const { source } = entry
+  if (!isRecord(source)) return false
+  if (source.type === "blank") return isPositive(source.width) && isPositive(source.height)
+  const { documentIndex = 0, pageNumber } = source
+  return (
+    source.type === "pdf" &&
+    typeof documentIndex === "number" &&
+    Number.isInteger(documentIndex) &&
+    documentIndex >= 0 &&
+    documentIndex < pageCounts.length &&
+    typeof pageNumber === "number" &&
+    Number.isInteger(pageNumber) &&
+    pageNumber >= 1 &&
+    pageNumber <= pageCounts[documentIndex]
+  )
+}
+
+/**
+ * Checks edits the editor saved itself, as kept in a project file, for
+ * documents with the given page counts. Project files can be edited by hand,
+ * so nothing is taken on trust. Throws an EditSpecError for the first problem.
+ */
+export function checkSavedEdits(edits: Record<string, unknown>, pageCounts: number[]) {
+  const { pages, formValues } = edits
+  if (pages !== undefined && !(Array.isArray(pages) && pages.every((entry) => isPageEntry(entry, pageCounts)))) {
+    throw new EditSpecError("The page list is not valid.")
+  }
+  const isFieldValues = (values: unknown) => isRecord(values) && Object.values(values).every(isFormValue)
+  if (formValues !== undefined && !(isRecord(formValues) && Object.values(formValues).every(isFieldValues))) {
+    throw new EditSpecError("The form values are not valid.")
+  }
+  checkPageEdits(edits)
+}
+
+/**
+ * The valid properties of a text style kept outside the edits, such as the
+ * style the editor was set to when a project was saved. Invalid ones are left out.
+ */
+export function pickTextStyle(style: unknown): Partial<TextStyle> {
+  if (!isRecord(style)) return {}
+  const keys = Object.keys(TEXT_STYLE_CHECKS) as (keyof TextStyle)[]
+  return Object.fromEntries(keys.filter((key) => TEXT_STYLE_CHECKS[key](style[key])).map((key) => [key, style[key]]))
+}
+
+const getObfuscationSizes = (obfuscation: Obfuscation) => {
+  if (isGaussianBlur(obfuscation)) return [obfuscation.intensity]
+  return obfuscation.style === "fill" ? [] : [obfuscation.blockSize]
+}
+
+const getActionSizes = (action: EditAction) => {
+  switch (action.type) {
+    case "blur":
+      return action.strokes.flatMap((stroke) => [stroke.size, ...getObfuscationSizes(stroke)])
+    case "erase":
+      return action.strokes.map((stroke) => stroke.size)
+    case "blur-region":
+    case "erase-region": {
+      const { width, height } = getShapeBounds(action.shape)
+      return action.type === "blur-region" ? [width, height, ...getObfuscationSizes(action)] : [width, height]
+    }
+    case "redact":
+      return action.regions.flatMap((region) => [region.width, region.height])
+    case "highlight":
+      return [action.width, action.height]
+    case "rectangle":
+    case "ellipse":
+      return [action.width, action.height, action.strokeWidth]
+    default:
+      return [action.strokeWidth]
+  }
+}
+
+// Sizes of each kind of edit, which are rendered in full however much of the edit is off the page
+const EDIT_SIZES: { [key in keyof typeof PAGE_EDITS]: (edit: never) => number[] } = {
+  editActions: getActionSizes,
+  textBoxes: (textBox: TextBoxSpec) => [textBox.fontSize ?? 0, textBox.width ?? 0],
+  images: (stamp: ImageStampSpec) => [stamp.width, stamp.height],
+  annotationEdits: () => [],
+}
+
+/**
+ * The editor state for a document with pages of the given sizes (in page units)
+ * and the spec's edits. Throws an EditSpecError if the spec has edits for pages
+ * the document lacks, or edits larger than their page.
+ */
+export function createEditState(spec: EditSpec, pageSizes: { width: number; height: number }[]): EditState {
+  const pageCount = pageSizes.length
+  PAGE_KEYS.forEach((key) => {
+    const page = Object.keys(spec[key] ?? {}).find((page) => Number(page) > pageCount)
+    if (page) {
+      throw new EditSpecError(`"${key}" has edits for page ${page}, but the PDF has ${pageCount} pages.`)
+    }
+
+    const { name } = PAGE_EDITS[key]
+    Object.entries(spec[key] ?? {}).forEach(([page, edits]) => {
+      const { width, height } = pageSizes[Number(page) - 1]
+      const limit = Math.max(width, height)
+      Object.entries(edits as object).forEach(([item, edit]) => {
+        if (EDIT_SIZES[key](edit as never).every((size) => size <= limit)) return
+        throw new EditSpecError(`The ${name} number ${Number(item) + 1} on page ${page} is larger than the page.`)
+      })
+    })
+  })
+
+  const textBoxes: EditState["textBoxes"] = {}
+  Object.entries(spec.textBoxes ?? {}).forEach(([page, boxes]) => {
+    textBoxes[Number(page)] = boxes.map((box, index) => ({
+      ...DEFAULT_TEXT_STYLE,
+      ...box,
+      id: `spec-text-${page}-${index + 1}`,
+      isEditing: false,
+    }))
+  })
+
+  const images: EditState["images"] = {}
+  Object.entries(spec.images ?? {}).forEach(([page, stamps]) => {
+    images[Number(page)] = stamps.map((stamp, index) => ({
+      rotation: 0,
+      ...stamp,
+      id: `spec-image-${page}-${index + 1}`,
+    }))
+  })
+
+  return {
+    pages: createPageEntries([pageCount]),
+    editActions: spec.editActions ?? {},
+    textBoxes,
+    images,
+    annotationEdits: spec.annotationEdits ?? {},
+    formValues: spec.formValues ? { 0: spec.formValues } : {},
+  }
+}
+
+/**
+ * Checks that every image in a spec can be embedded, which decodes it, so an
+ * image that only looks like a PNG or JPEG is reported as an EditSpecError.
+ */
+export async function checkSpecImages(spec: EditSpec) {
+  const pdfDoc = await PDFDocument.create()
+  for (const [page, stamps] of Object.entries(spec.images ?? {})) {
+    for (let index = 0; index < stamps.length; index++) {
+      const { src } = stamps[index]
+      try {
+        await (src.startsWith("data:image/jpeg") ? pdfDoc.embedJpg(src) : pdfDoc.embedPng(src))
+      } catch {
+        throw new EditSpecError(`The image number ${index + 1} on page ${page} is not a valid PNG or JPEG image.`)
+      }
+    }
+  }
+}
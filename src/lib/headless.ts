@@ -0,0 +1,58 @@
+import { existsSync } from "node:fs"
+import { createRequire } from "node:module"
+import { dirname, join } from "node:path"
+import { pathToFileURL } from "node:url"
+import { createCanvas } from "@napi-rs/canvas"
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs"
+
+import { setCanvasFactory } from "@/lib/edit-render"
+import { checkSpecImages, createEditState, type EditSpec } from "@/lib/edit-spec"
+import { openPdfFile, setPdfJs } from "@/lib/pdf"
+import { exportDocument } from "@/lib/pdf-export"
+
+// Resolved from this module, so the CLI works from any directory. Bundled into the API route, the
+// module no longer sits near the package and the bundler hands back a module id instead of a path,
+// so the server's own directory is used.
+const findPdfJs = () => {
+  try {
+    const dir = dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"))
+    if (existsSync(dir)) return dir
+  } catch {
+    // Not installed where Node would look for it from here
+  }
+  return join(process.cwd(), "node_modules", "pdfjs-dist")
+}
+
+const PDFJS_DIR = findPdfJs()
+
+// PDF.js runs its worker on the main thread in Node and renders onto @napi-rs/canvas, which has
+// the parts of the canvas API the renderers use. Fonts a PDF uses without embedding them come
+// from the copies shipped with PDF.js.
+pdfjs.GlobalWorkerOptions.workerSrc = pathToFileURL(join(PDFJS_DIR, "legacy", "build", "pdf.worker.mjs")).href
+setPdfJs(pdfjs, { standardFontDataUrl: join(PDFJS_DIR, "standard_fonts") + "/" })
+setCanvasFactory((width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement)
+
+/**
+ * Applies an edit spec to a PDF in Node, through the same export as the
+ * editor's download, and returns the edited PDF. Password-protected files
+ * are rejected with a PdfFileError, and edits too large for their page or
+ * images that cannot be decoded with an EditSpecError.
+ */
+export async function processPdf(file: File, spec: EditSpec) {
+  const pdf = await openPdfFile(file, async () => null)
+  try {
+    const pageSizes = []
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const { width, height } = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 })
+      pageSizes.push({ width, height })
+    }
+    const state = createEditState(spec, pageSizes)
+    await checkSpecImages(spec)
+    return await exportDocument([file], [pdf], state, {
+      mode: spec.mode ?? "flatten",
+      flattenForm: spec.flattenForm ?? false,
+    })
+  } finally {
+    await pdf.destroy()
+  }
+}
@@ -0,0 +1,94 @@
+import { loadPdfData, loadPdfJs } from "@/lib/pdf"
+import { createTiff } from "@/lib/tiff"
+import { createZip, type ZipEntry } from "@/lib/zip"
+
+export type ImageFormat = "png" | "jpeg" | "webp" | "tiff"
+
+// Page units are points, of which there are 72 to the inch
+const POINTS_PER_INCH = 72
+
+const IMAGE_TYPES: { [format in Exclude<ImageFormat, "tiff">]: { type: string; label: string; extension: string } } = {
+  png: { type: "image/png", label: "PNG", extension: "png" },
+  jpeg: { type: "image/jpeg", label: "JPEG", extension: "jpg" },
+  webp: { type: "image/webp", label: "WebP", extension: "webp" },
+}
+
+export interface ImageExportOptions {
+  format: ImageFormat
+  dpi: number
+  // From 0 to 1, for JPEG and WebP only
+  quality: number
+  // The page numbers the pages had in the editor, for the file names
+  pageNumbers: number[]
+}
+
+/** Images that cannot be exported, with a message that can be shown to the user as-is. */
+export class ImageExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImageExportError"
+  }
+}
+
+const encodeCanvas = (canvas: HTMLCanvasElement, format: Exclude<ImageFormat, "tiff">, quality: number) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const { type, label } = IMAGE_TYPES[format]
+    canvas.toBlob(
+      (blob) => {
+        // Browsers that cannot write a type fall back to PNG instead of failing
+        if (!blob || blob.type !== type) {
+          reject(new ImageExportError(`This browser cannot save ${label} images. Choose another format.`))
+          return
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject)
+      },
+      type,
+      quality,
+    )
+  })
+
+/**
+ * Renders the pages of an exported PDF as images: one file per page, zipped,
+ * or a single multi-page TIFF. Rendering the export rather than the editor's
+ * pages means the images show exactly what the PDF would, annotations and
+ * filled-in form fields included.
+ */
+export async function exportImages(pdfBytes: Uint8Array, { format, dpi, quality, pageNumbers }: ImageExportOptions) {
+  const { AnnotationMode } = await loadPdfJs()
+  const pdf = await loadPdfData(pdfBytes)
+  const canvas = document.createElement("canvas")
+
+  const renderPage = async (index: number) => {
+    const page = await pdf.getPage(index + 1)
+    const viewport = page.getViewport({ scale: dpi / POINTS_PER_INCH })
+    canvas.width = Math.ceil(viewport.width)
+    canvas.height = Math.ceil(viewport.height)
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas 2D context is not available")
+    await page.render({ canvasContext: context, viewport, annotationMode: AnnotationMode.ENABLE }).promise
+    page.cleanup()
+    return context
+  }
+
+  try {
+    if (format === "tiff") {
+      return await createTiff(pdf.numPages, dpi, async (index) => {
+        const context = await renderPage(index)
+        return context.getImageData(0, 0, canvas.width, canvas.height)
+      })
+    }
+
+    const entries: ZipEntry[] = []
+    for (let index = 0; index < pdf.numPages; index++) {
+      await renderPage(index)
+      const data = await encodeCanvas(canvas, format, quality)
+      entries.push({ name: `page-${pageNumbers[index] ?? index + 1}.${IMAGE_TYPES[format].extension}`, data })
+    }
+    return createZip(entries)
+  } finally {
+    // Browsers keep a canvas's memory until it is resized or collected
+    canvas.width = 0
+    canvas.height = 0
+    await pdf.destroy()
+  }
+}
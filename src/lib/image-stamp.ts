@@ -0,0 +1,77 @@
+/** An image placed on a page, such as a signature, company stamp or logo. */
+export interface ImageStamp {
+  id: string
+  // Page units; x and y are the top-left corner before rotation
+  x: number
+  y: number
+  width: number
+  height: number
+  // Clockwise degrees around the centre
+  rotation: number
+  // PNG or JPEG data URL, the formats pdf-lib can embed
+  src: string
+}
+
+/** An image ready to be stamped, with its natural size used for the aspect ratio. */
+export interface StampImage {
+  name: string
+  src: string
+  width: number
+  height: number
+}
+
+export const STAMP_IMAGE_TYPES = ["image/png", "image/jpeg", "image/svg+xml"]
+
+// SVGs are converted to PNG at this width, enough to stay sharp when printed at stamp size
+const SVG_RASTER_WIDTH = 1200
+
+export class ImageFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImageFileError"
+  }
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("The image could not be decoded"))
+    image.src = src
+  })
+
+/** Reads an uploaded image. Throws an ImageFileError for unsupported or unreadable files. */
+export async function loadStampImage(file: File): Promise<StampImage> {
+  if (!STAMP_IMAGE_TYPES.includes(file.type)) {
+    throw new ImageFileError(`"${file.name}" is not a PNG, JPEG or SVG image.`)
+  }
+
+  let image: HTMLImageElement
+  try {
+    image = await loadImage(await readAsDataUrl(file))
+  } catch {
+    throw new ImageFileError(`"${file.name}" could not be read.`)
+  }
+
+  const { naturalWidth: width, naturalHeight: height } = image
+  if (!width || !height) {
+    throw new ImageFileError(`"${file.name}" has no size. SVGs need a width and height or a viewBox.`)
+  }
+  if (file.type !== "image/svg+xml") {
+    return { name: file.name, src: image.src, width, height }
+  }
+
+  const canvas = document.createElement("canvas")
+  canvas.width = SVG_RASTER_WIDTH
+  canvas.height = Math.round((SVG_RASTER_WIDTH * height) / width)
+  canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return { name: file.name, src: canvas.toDataURL("image/png"), width, height }
+}
@@ -0,0 +1,125 @@
+export interface MarkupPoint {
+  x: number
+  y: number
+}
+
+export type MarkupTool = "highlight" | "underline" | "strikeout" | "rectangle" | "ellipse" | "line" | "arrow" | "pen"
+
+interface MarkupBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface MarkupStyle {
+  color: string
+  // Line width in page units
+  strokeWidth: number
+}
+
+/** Markup drawn on top of the page content, in page units. Highlights are filled and have no stroke. */
+export type MarkupAction =
+  | ({ type: "highlight"; color: string } & MarkupBox)
+  | ({ type: "rectangle" } & MarkupBox & MarkupStyle)
+  | ({ type: "ellipse" } & MarkupBox & MarkupStyle)
+  | ({ type: "underline" | "strikeout" | "line" | "arrow"; start: MarkupPoint; end: MarkupPoint } & MarkupStyle)
+  | ({ type: "pen"; points: MarkupPoint[] } & MarkupStyle)
+
+export type StrokedMarkup = Extract<MarkupAction, { start: MarkupPoint } | { points: MarkupPoint[] }>
+
+// Highlights are see-through and multiplied onto the page, so the text under them stays readable
+export const HIGHLIGHT_OPACITY = 0.4
+
+// Arrowheads grow with the line width but stay visible on thin lines
+const ARROW_HEAD_SCALE = 4
+const MIN_ARROW_HEAD_LENGTH = 8
+// Half the angle at the tip of an arrowhead
+const ARROW_HEAD_ANGLE = Math.PI / 7
+
+// Markup smaller than this, in page units, is treated as an accidental click
+const MIN_MARKUP_SIZE = 1
+
+const getRect = (start: MarkupPoint, end: MarkupPoint) => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+})
+
+/**
+ * Creates the markup for a drag from `start` to `end` with one of the dragged
+ * tools, or returns null if the drag is too small. Underlines and strike-throughs
+ * run along the bottom and the middle of the dragged box.
+ */
+export function createMarkup(
+  tool: Exclude<MarkupTool, "pen">,
+  start: MarkupPoint,
+  end: MarkupPoint,
+  style: MarkupStyle,
+): MarkupAction | null {
+  const rect = getRect(start, end)
+
+  if (tool === "line" || tool === "arrow") {
+    if (Math.hypot(rect.width, rect.height) <= MIN_MARKUP_SIZE) return null
+    return { type: tool, start, end, ...style }
+  }
+
+  if (tool === "underline" || tool === "strikeout") {
+    if (rect.width <= MIN_MARKUP_SIZE) return null
+    const y = tool === "underline" ? rect.y + rect.height : rect.y + rect.height / 2
+    return { type: tool, start: { x: rect.x, y }, end: { x: rect.x + rect.width, y }, ...style }
+  }
+
+  if (rect.width <= MIN_MARKUP_SIZE || rect.height <= MIN_MARKUP_SIZE) return null
+  if (tool === "highlight") return { type: tool, ...rect, color: style.color }
+  return { type: tool, ...rect, ...style }
+}
+
+/** The tip and the two back corners of an arrow's head. */
+export function getArrowHead({ start, end, strokeWidth }: { start: MarkupPoint; end: MarkupPoint } & MarkupStyle) {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x)
+  const length = Math.min(
+    Math.hypot(end.x - start.x, end.y - start.y),
+    Math.max(MIN_ARROW_HEAD_LENGTH, strokeWidth * ARROW_HEAD_SCALE),
+  )
+  const corner = (side: number) => ({
+    x: end.x - length * Math.cos(angle + side * ARROW_HEAD_ANGLE),
+    y: end.y - length * Math.sin(angle + side * ARROW_HEAD_ANGLE),
+  })
+  return [end, corner(1), corner(-1)]
+}
+
+/**
+ * The polyline a stroked markup draws. Arrows stop where their head starts,
+ * so a wide line cannot poke out past the tip.
+ */
+export function getMarkupStroke(markup: StrokedMarkup): MarkupPoint[] {
+  if (markup.type === "pen") return markup.points
+  if (markup.type !== "arrow") return [markup.start, markup.end]
+
+  const [, left, right] = getArrowHead(markup)
+  return [markup.start, { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 }]
+}
+
+/** Bounds of everything a markup paints, including the width of its lines, in page units. */
+export function getMarkupBounds(markup: MarkupAction) {
+  if (markup.type === "highlight") return { x: markup.x, y: markup.y, width: markup.width, height: markup.height }
+
+  const margin = markup.strokeWidth / 2
+  if (markup.type === "rectangle" || markup.type === "ellipse") {
+    return {
+      x: markup.x - margin,
+      y: markup.y - margin,
+      width: markup.width + 2 * margin,
+      height: markup.height + 2 * margin,
+    }
+  }
+
+  const points = [...getMarkupStroke(markup)]
+  if (markup.type === "arrow") points.push(...getArrowHead(markup))
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const rect = getRect({ x: Math.min(...xs), y: Math.min(...ys) }, { x: Math.max(...xs), y: Math.max(...ys) })
+  return { x: rect.x - margin, y: rect.y - margin, width: rect.width + 2 * margin, height: rect.height + 2 * margin }
+}
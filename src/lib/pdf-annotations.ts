@@ -0,0 +1,255 @@
+import type { PDFPageProxy, PageViewport } from "pdfjs-dist"
+
+import type { MarkupAction, MarkupPoint } from "@/lib/markup"
+
+/** An annotation or form field widget already in an uploaded PDF, in page units. */
+export interface PdfAnnotation {
+  // PDF.js id, which is the annotation's object reference in its document (e.g. "12R")
+  id: string
+  subtype: string
+  x: number
+  y: number
+  width: number
+  height: number
+  contents: string
+  // Null when the annotation has no color of its own
+  color: string | null
+  // How the editor draws the annotation; subtypes it cannot draw are shown as an outline
+  markups: MarkupAction[]
+  // Font size of free text annotations and form fields, unless the field sizes its text automatically
+  fontSize?: number
+  field?: PdfFormField
+}
+
+export type FormValue = string | boolean
+
+/** The form field a widget belongs to. The buttons of a radio group are widgets of the same field. */
+export interface PdfFormField {
+  name: string
+  // Fields of other types, such as push buttons and signatures, are shown but cannot be filled in
+  type: "text" | "checkbox" | "radio" | "dropdown" | "other"
+  // Whether a checkbox is checked; for other fields the text or the selected option, or "" for none
+  value: FormValue
+  // The value a radio button selects
+  buttonValue?: string
+  options?: { value: string; label: string }[]
+  multiline?: boolean
+  maxLength?: number
+  readOnly: boolean
+}
+
+/** A change made in the editor to an existing annotation, written back on download. */
+export interface AnnotationEdit {
+  deleted?: boolean
+  contents?: string
+  color?: string
+}
+
+/** A field's value as it reads on the page. */
+export function getFormFieldText(field: PdfFormField) {
+  const { type, value } = field
+  if (type === "checkbox") return value === true ? "✓" : ""
+  if (type === "radio") return value !== "" && value === field.buttonValue ? "✓" : ""
+  if (type === "dropdown") return field.options?.find((option) => option.value === value)?.label ?? String(value)
+  return typeof value === "string" ? value : ""
+}
+
+/** Font size of a field's text in page units; fields sized automatically fit one line of text. */
+export function getFieldFontSize(annotation: PdfAnnotation) {
+  return annotation.fontSize ?? Math.min(annotation.height * 0.7, 12)
+}
+
+/** The annotation as it looks with the editor's changes applied. */
+export function applyAnnotationEdit(annotation: PdfAnnotation, edit?: AnnotationEdit): PdfAnnotation {
+  if (!edit) return annotation
+  const { contents, color } = edit
+  return {
+    ...annotation,
+    contents: contents ?? annotation.contents,
+    markups: color ? annotation.markups.map((markup) => ({ ...markup, color })) : annotation.markups,
+  }
+}
+
+/** The widget with the value entered in the editor, if any, in place of the document's own. */
+export function applyFormValue(annotation: PdfAnnotation, values?: { [field: string]: FormValue }): PdfAnnotation {
+  const value = annotation.field ? values?.[annotation.field.name] : undefined
+  if (!annotation.field || value === undefined) return annotation
+  return { ...annotation, field: { ...annotation.field, value } }
+}
+
+// The subset of PDF.js annotation data the editor reads
+interface AnnotationData {
+  id: string
+  subtype: string
+  rect: number[]
+  color: Uint8ClampedArray | null
+  contentsObj?: { str: string }
+  borderStyle?: { width: number }
+  quadPoints?: Float32Array | null
+  inkLists?: Float32Array[]
+  vertices?: Float32Array | number[]
+  lineCoordinates?: number[]
+  lineEndings?: string[]
+  defaultAppearanceData?: { fontSize: number; fontColor: Uint8ClampedArray }
+  hidden?: boolean
+  fieldName?: string
+  fieldType?: string | null
+  fieldValue?: unknown
+  readOnly?: boolean
+  multiLine?: boolean
+  maxLen?: number
+  checkBox?: boolean
+  radioButton?: boolean
+  exportValue?: string
+  buttonValue?: string | null
+  options?: { exportValue: string; displayValue: string }[]
+}
+
+// Links belong to the document's navigation and popups to their parent annotation, so neither is shown
+const SKIPPED_SUBTYPES = ["Link", "Popup"]
+
+const ARROW_ENDINGS = ["OpenArrow", "ClosedArrow"]
+
+const toHexColor = (color: ArrayLike<number> | null | undefined) =>
+  color && color.length === 3
+    ? `#${Array.from(color, (component) => component.toString(16).padStart(2, "0")).join("")}`
+    : null
+
+const getBounds = (points: MarkupPoint[]) => {
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+// Converts a flat list of user space coordinates to points in page units
+const toPagePoints = (coordinates: ArrayLike<number>, viewport: PageViewport) => {
+  const points: MarkupPoint[] = []
+  for (let index = 0; index + 1 < coordinates.length; index += 2) {
+    const [x, y] = viewport.convertToViewportPoint(coordinates[index], coordinates[index + 1])
+    points.push({ x, y })
+  }
+  return points
+}
+
+const getFormField = (data: AnnotationData): PdfFormField => {
+  const field = { name: data.fieldName ?? "", readOnly: Boolean(data.readOnly) }
+  const value = Array.isArray(data.fieldValue) ? data.fieldValue[0] : data.fieldValue
+  const text = typeof value === "string" ? value : ""
+
+  if (data.fieldType === "Tx") {
+    return { ...field, type: "text", value: text, multiline: data.multiLine, maxLength: data.maxLen || undefined }
+  }
+  if (data.checkBox) return { ...field, type: "checkbox", value: value === data.exportValue }
+  if (data.radioButton) {
+    // "Off" is the name PDF uses for no selection
+    return { ...field, type: "radio", value: text === "Off" ? "" : text, buttonValue: data.buttonValue ?? undefined }
+  }
+  if (data.fieldType === "Ch") {
+    const options = (data.options ?? []).map(({ exportValue, displayValue }) => ({
+      value: exportValue,
+      label: displayValue,
+    }))
+    return { ...field, type: "dropdown", value: text, options }
+  }
+  return { ...field, type: "other", value: text }
+}
+
+// Redraws the annotation types that correspond to the editor's own markup tools
+const getMarkups = (data: AnnotationData, color: string, viewport: PageViewport): MarkupAction[] => {
+  const strokeWidth = data.borderStyle?.width || 1
+  const style = { color, strokeWidth }
+
+  if (data.subtype === "Highlight" || data.subtype === "Underline" || data.subtype === "StrikeOut") {
+    const quads: MarkupPoint[][] = []
+    const points = toPagePoints(data.quadPoints ?? [], viewport)
+    for (let index = 0; index + 3 < points.length; index += 4) quads.push(points.slice(index, index + 4))
+
+    return quads.map((quad) => {
+      const box = getBounds(quad)
+      if (data.subtype === "Highlight") return { type: "highlight", ...box, color }
+      const y = data.subtype === "Underline" ? box.y + box.height : box.y + box.height / 2
+      const type = data.subtype === "Underline" ? "underline" : "strikeout"
+      return { type, start: { x: box.x, y }, end: { x: box.x + box.width, y }, ...style }
+    })
+  }
+
+  if (data.subtype === "Square" || data.subtype === "Circle") {
+    // The border is drawn inside the annotation rectangle
+    const [left, top] = viewport.convertToViewportPoint(data.rect[0], data.rect[1])
+    const [right, bottom] = viewport.convertToViewportPoint(data.rect[2], data.rect[3])
+    const box = getBounds([
+      { x: left, y: top },
+      { x: right, y: bottom },
+    ])
+    const inset = strokeWidth / 2
+    return [
+      {
+        type: data.subtype === "Square" ? "rectangle" : "ellipse",
+        x: box.x + inset,
+        y: box.y + inset,
+        width: Math.max(0, box.width - strokeWidth),
+        height: Math.max(0, box.height - strokeWidth),
+        ...style,
+      },
+    ]
+  }
+
+  if (data.subtype === "Ink") {
+    return (data.inkLists ?? []).map((inkList) => ({ type: "pen", points: toPagePoints(inkList, viewport), ...style }))
+  }
+
+  if (data.subtype === "PolyLine" || data.subtype === "Polygon") {
+    const points = toPagePoints(data.vertices ?? [], viewport)
+    if (data.subtype === "Polygon" && points.length > 0) points.push(points[0])
+    return [{ type: "pen", points, ...style }]
+  }
+
+  if (data.subtype === "Line" && data.lineCoordinates) {
+    // PDF.js reports the end points sorted like a rectangle, so a line's direction is not always kept.
+    // The editor's arrows point at their end, so a line with only a starting arrow is drawn reversed.
+    let [start, end] = toPagePoints(data.lineCoordinates, viewport)
+    const [startEnding, endEnding] = data.lineEndings ?? []
+    if (ARROW_ENDINGS.includes(startEnding) && !ARROW_ENDINGS.includes(endEnding)) [start, end] = [end, start]
+    const isArrow = ARROW_ENDINGS.includes(startEnding) || ARROW_ENDINGS.includes(endEnding)
+    return [{ type: isArrow ? "arrow" : "line", start, end, ...style }]
+  }
+
+  return []
+}
+
+/**
+ * Reads a page's annotations and form field widgets, positioned in the given
+ * scale-1 viewport (which fixes the page rotation).
+ */
+export async function readPageAnnotations(page: PDFPageProxy, viewport: PageViewport): Promise<PdfAnnotation[]> {
+  const annotations = (await page.getAnnotations()) as AnnotationData[]
+
+  return annotations
+    .filter((data) => !data.hidden && !SKIPPED_SUBTYPES.includes(data.subtype))
+    .map((data) => {
+      const [x1, y1, x2, y2] = data.rect
+      const box = getBounds(toPagePoints([x1, y1, x2, y1, x1, y2, x2, y2], viewport))
+      const color = toHexColor(data.color)
+      const annotation: PdfAnnotation = {
+        id: data.id,
+        subtype: data.subtype,
+        ...box,
+        contents: data.contentsObj?.str ?? "",
+        color,
+        markups: getMarkups(data, color ?? "#000000", viewport),
+      }
+
+      if (data.subtype === "FreeText") {
+        annotation.fontSize = data.defaultAppearanceData?.fontSize || 10
+        annotation.color = toHexColor(data.defaultAppearanceData?.fontColor) ?? "#000000"
+      }
+      if (data.subtype === "Widget") {
+        annotation.field = getFormField(data)
+        // A font size of 0 sizes the text to fit the field
+        if (data.defaultAppearanceData?.fontSize) annotation.fontSize = data.defaultAppearanceData.fontSize
+      }
+      return annotation
+    })
+}
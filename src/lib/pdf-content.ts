@@ -0,0 +1,750 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFFlateStream,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFStream,
+  StandardFontEmbedder,
+  StandardFonts,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFDocument,
+  type PDFPage,
+  type PDFRef,
+} from "pdf-lib"
+
+import { rectsIntersect, type PageRect } from "@/lib/edit-model"
+
+/** A PDF transformation matrix, [a b c d e f]. */
+export type Matrix = [number, number, number, number, number, number]
+
+/** An image drawn in place of one that overlaps a hidden area, with the matrix placing it in user space. */
+export interface ImagePatch {
+  ref: PDFRef
+  matrix: Matrix
+}
+
+/** Content streams that use features the filter cannot follow, so nothing in them can be removed reliably. */
+class UnsupportedContentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UnsupportedContentError"
+  }
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+// Forms drawing forms this deep are more likely a loop than real content
+const MAX_FORM_DEPTH = 12
+
+// Glyphs count as hidden when this point, the middle of a typical lowercase letter, is in a hidden area
+const GLYPH_MIDDLE = 0.3
+
+// Glyph widths used when a font gives none, in thousandths of the font size
+const DEFAULT_GLYPH_WIDTH = 500
+
+/** The product of two matrices, which transforms by `a` first and then by `b`. */
+export const multiplyMatrices = (a: Matrix, b: Matrix): Matrix => [
+  a[0] * b[0] + a[1] * b[2],
+  a[0] * b[1] + a[1] * b[3],
+  a[2] * b[0] + a[3] * b[2],
+  a[2] * b[1] + a[3] * b[3],
+  a[4] * b[0] + a[5] * b[2] + b[4],
+  a[4] * b[1] + a[5] * b[3] + b[5],
+]
+
+const invert = ([a, b, c, d, e, f]: Matrix): Matrix | null => {
+  const determinant = a * d - b * c
+  if (!determinant) return null
+  return [
+    d / determinant,
+    -b / determinant,
+    -c / determinant,
+    a / determinant,
+    (c * f - d * e) / determinant,
+    (b * e - a * f) / determinant,
+  ]
+}
+
+const transformPoint = (x: number, y: number, [a, b, c, d, e, f]: Matrix) => ({
+  x: x * a + y * c + e,
+  y: x * b + y * d + f,
+})
+
+// Where the unit square, in which images are drawn, ends up under `matrix`
+const getUnitSquareBounds = (matrix: Matrix): PageRect => {
+  const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([x, y]) => transformPoint(x, y, matrix))
+  const xs = corners.map((corner) => corner.x)
+  const ys = corners.map((corner) => corner.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+const isInRects = ({ x, y }: { x: number; y: number }, rects: PageRect[]) =>
+  rects.some((rect) => x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height)
+
+// Numbers are written without exponents, which PDF does not allow
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000
+  return Object.is(rounded, -0) ? "0" : String(rounded)
+}
+
+const formatMatrix = (matrix: Matrix) => matrix.map(formatNumber).join(" ")
+
+const toHexString = (bytes: number[]) =>
+  `<${bytes.map((byte) => (byte < 16 ? "0" : "") + byte.toString(16)).join("")}>`
+
+const toBytes = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0))
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  parts.forEach((part) => {
+    bytes.set(part, offset)
+    offset += part.length
+  })
+  return bytes
+}
+
+// Tokens of a content stream, as far as the filter needs to understand them
+type Operand =
+  | { type: "number"; value: number }
+  // Names are kept as written, with any #xx escapes, since PDFName.of decodes them
+  | { type: "name"; value: string }
+  | { type: "string"; value: number[] }
+  | { type: "array"; value: Operand[] }
+  // Dictionaries, booleans and null, which no operator the filter follows takes
+  | { type: "other" }
+
+type Token = Operand | { type: "operator"; value: string } | { type: "close" }
+
+interface Operation {
+  operator: string
+  operands: Operand[]
+  // Byte range of the operation, operands included, in the decoded stream
+  start: number
+  end: number
+}
+
+interface Lexer {
+  data: Uint8Array
+  position: number
+}
+
+const isWhitespace = (byte: number) =>
+  byte === 0 || byte === 9 || byte === 10 || byte === 12 || byte === 13 || byte === 32
+
+const DELIMITERS = new Set(Array.from("()<>[]{}/%", (char) => char.charCodeAt(0)))
+
+const isRegular = (byte: number) => !isWhitespace(byte) && !DELIMITERS.has(byte)
+
+const STRING_ESCAPES: { [byte: number]: number } = {
+  0x6e: 10, // n
+  0x72: 13, // r
+  0x74: 9, // t
+  0x62: 8, // b
+  0x66: 12, // f
+  0x28: 0x28,
+  0x29: 0x29,
+  0x5c: 0x5c,
+}
+
+const isOctalDigit = (byte: number) => byte >= 0x30 && byte <= 0x37
+
+const getHexValue = (byte: number) => {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57
+  return -1
+}
+
+const skipWhitespace = (lexer: Lexer) => {
+  const { data } = lexer
+  while (lexer.position < data.length) {
+    const byte = data[lexer.position]
+    if (byte === 0x25) {
+      // Comments run to the end of the line
+      while (lexer.position < data.length && data[lexer.position] !== 10 && data[lexer.position] !== 13) {
+        lexer.position++
+      }
+    } else if (isWhitespace(byte)) {
+      lexer.position++
+    } else {
+      break
+    }
+  }
+}
+
+const readLiteralString = (lexer: Lexer) => {
+  const { data } = lexer
+  const bytes: number[] = []
+  let depth = 1
+  lexer.position++
+  while (lexer.position < data.length) {
+    const byte = data[lexer.position++]
+    if (byte === 0x28) {
+      depth++
+    } else if (byte === 0x29) {
+      if (--depth === 0) break
+    } else if (byte === 0x5c) {
+      if (lexer.position >= data.length) break
+      const escaped = data[lexer.position++]
+      if (STRING_ESCAPES[escaped] !== undefined) {
+        bytes.push(STRING_ESCAPES[escaped])
+      } else if (isOctalDigit(escaped)) {
+        let code = escaped - 0x30
+        for (let digit = 1; digit < 3 && isOctalDigit(data[lexer.position]); digit++) {
+          code = code * 8 + data[lexer.position++] - 0x30
+        }
+        bytes.push(code & 0xff)
+      } else if (escaped === 13) {
+        // A backslash at the end of a line continues the string on the next one
+        if (data[lexer.position] === 10) lexer.position++
+      } else if (escaped !== 10) {
+        bytes.push(escaped)
+      }
+      continue
+    }
+    bytes.push(byte)
+  }
+  return bytes
+}
+
+const readHexString = (lexer: Lexer) => {
+  const { data } = lexer
+  const digits: number[] = []
+  lexer.position++
+  while (lexer.position < data.length && data[lexer.position] !== 0x3e) {
+    const value = getHexValue(data[lexer.position++])
+    if (value >= 0) digits.push(value)
+  }
+  lexer.position++
+  // A missing last digit counts as 0
+  if (digits.length % 2) digits.push(0)
+  const bytes: number[] = []
+  for (let index = 0; index < digits.length; index += 2) bytes.push(digits[index] * 16 + digits[index + 1])
+  return bytes
+}
+
+const readRegular = (lexer: Lexer) => {
+  const { data } = lexer
+  const start = lexer.position
+  while (lexer.position < data.length && isRegular(data[lexer.position])) lexer.position++
+  return String.fromCharCode(...Array.from(data.subarray(start, lexer.position)))
+}
+
+const readToken = (lexer: Lexer): Token | null => {
+  skipWhitespace(lexer)
+  const { data } = lexer
+  if (lexer.position >= data.length) return null
+  const byte = data[lexer.position]
+
+  if (byte === 0x28) return { type: "string", value: readLiteralString(lexer) }
+  if (byte === 0x3c) {
+    if (data[lexer.position + 1] !== 0x3c) return { type: "string", value: readHexString(lexer) }
+    // Dictionaries only hold marked content properties here, which are kept as they are
+    lexer.position += 2
+    for (let token = readToken(lexer); token && token.type !== "close"; token = readToken(lexer));
+    return { type: "other" }
+  }
+  if (byte === 0x3e) {
+    lexer.position += data[lexer.position + 1] === 0x3e ? 2 : 1
+    return { type: "close" }
+  }
+  if (byte === 0x5b) {
+    lexer.position++
+    const value: Operand[] = []
+    for (let token = readToken(lexer); token && token.type !== "close"; token = readToken(lexer)) {
+      value.push(token.type === "operator" ? { type: "other" } : token)
+    }
+    return { type: "array", value }
+  }
+  if (byte === 0x5d) {
+    lexer.position++
+    return { type: "close" }
+  }
+  if (byte === 0x2f) {
+    lexer.position++
+    return { type: "name", value: readRegular(lexer) }
+  }
+  if (!isRegular(byte)) {
+    // Stray delimiters, e.g. braces, which only PostScript functions use
+    lexer.position++
+    return { type: "other" }
+  }
+
+  const text = readRegular(lexer)
+  if (/^[+\-.\d]/.test(text)) return { type: "number", value: parseFloat(text) || 0 }
+  if (text === "true" || text === "false" || text === "null") return { type: "other" }
+  return { type: "operator", value: text }
+}
+
+// Skips the data of an inline image, which runs from "ID" to the next "EI" standing on its own
+const skipInlineImage = (lexer: Lexer) => {
+  for (let token = readToken(lexer); token; token = readToken(lexer)) {
+    if (token.type === "operator" && token.value === "ID") break
+  }
+  const { data } = lexer
+  let position = lexer.position + 1
+  while (position + 1 < data.length) {
+    const isEnd =
+      data[position] === 0x45 &&
+      data[position + 1] === 0x49 &&
+      isWhitespace(data[position - 1]) &&
+      (position + 2 >= data.length || !isRegular(data[position + 2]))
+    if (isEnd) break
+    position++
+  }
+  lexer.position = Math.min(position + 2, data.length)
+}
+
+const parseOperations = (data: Uint8Array) => {
+  const lexer: Lexer = { data, position: 0 }
+  const operations: Operation[] = []
+  let operands: Operand[] = []
+  let start = 0
+  for (;;) {
+    skipWhitespace(lexer)
+    const tokenStart = lexer.position
+    const token = readToken(lexer)
+    if (!token) break
+    if (operands.length === 0) start = tokenStart
+    if (token.type === "operator") {
+      if (token.value === "BI") skipInlineImage(lexer)
+      operations.push({ operator: token.value, operands, start, end: lexer.position })
+      operands = []
+    } else if (token.type !== "close") {
+      operands.push(token)
+    }
+  }
+  return operations
+}
+
+interface FontMetrics {
+  // Bytes per character code
+  codeLength: 1 | 2
+  // Advance width of a glyph, in text space units at a font size of 1
+  getWidth: (code: number) => number
+}
+
+const getNumber = (object: unknown) => (object instanceof PDFNumber ? object.asNumber() : undefined)
+
+// Only simple codes in the standard fonts' own encoding have known widths without a Widths array
+const getStandardFontWidths = (baseFont: string) => {
+  if (!(Object.values(StandardFonts) as string[]).includes(baseFont)) return null
+  if (baseFont === StandardFonts.Symbol || baseFont === StandardFonts.ZapfDingbats) return null
+  const embedder = StandardFontEmbedder.for(baseFont as Parameters<typeof StandardFontEmbedder.for>[0])
+  return (code: number) => {
+    if (code < 32 || code > 126) return undefined
+    return embedder.widthOfTextAtSize(String.fromCharCode(code), 1)
+  }
+}
+
+const loadFontMetrics = (font: PDFDict): FontMetrics => {
+  const subtype = font.lookup(PDFName.of("Subtype"))
+
+  if (subtype === PDFName.of("Type0")) {
+    // Other encodings are CMaps mapping codes of varying length to glyphs, which would have to be read
+    if (font.lookup(PDFName.of("Encoding")) !== PDFName.of("Identity-H")) {
+      throw new UnsupportedContentError("Fonts with this encoding are not supported")
+    }
+    const descendants = font.lookup(PDFName.of("DescendantFonts"))
+    const descendant = descendants instanceof PDFArray ? descendants.lookup(0) : undefined
+    const widths = new Map<number, number>()
+    let defaultWidth = 1000
+    if (descendant instanceof PDFDict) {
+      defaultWidth = getNumber(descendant.lookup(PDFName.of("DW"))) ?? defaultWidth
+      // Entries are either "first [w1 w2 ...]" or "first last w"
+      const entries = descendant.lookup(PDFName.of("W"))
+      const values = entries instanceof PDFArray ? entries.asArray().map((_, index) => entries.lookup(index)) : []
+      for (let index = 0; index + 1 < values.length; ) {
+        const first = getNumber(values[index]) ?? 0
+        const next = values[index + 1]
+        if (next instanceof PDFArray) {
+          next.asArray().forEach((_, offset) => {
+            widths.set(first + offset, getNumber(next.lookup(offset)) ?? defaultWidth)
+          })
+          index += 2
+        } else {
+          const last = getNumber(next) ?? first
+          const width = getNumber(values[index + 2]) ?? defaultWidth
+          // Ranges can be huge, and only codes that are drawn are looked up
+          for (let code = first; code <= last && code - first < 0x10000; code++) widths.set(code, width)
+          index += 3
+        }
+      }
+    }
+    return { codeLength: 2, getWidth: (code) => (widths.get(code) ?? defaultWidth) / 1000 }
+  }
+
+  // Type 3 glyphs are measured in their own glyph space
+  const fontMatrix = font.lookup(PDFName.of("FontMatrix"))
+  const scale =
+    (subtype === PDFName.of("Type3") && fontMatrix instanceof PDFArray ? getNumber(fontMatrix.lookup(0)) : undefined) ??
+    0.001
+  const firstChar = getNumber(font.lookup(PDFName.of("FirstChar"))) ?? 0
+  const widths = font.lookup(PDFName.of("Widths"))
+  const descriptor = font.lookup(PDFName.of("FontDescriptor"))
+  const missingWidth =
+    (descriptor instanceof PDFDict ? getNumber(descriptor.lookup(PDFName.of("MissingWidth"))) : undefined) ||
+    DEFAULT_GLYPH_WIDTH
+  const baseFont = font.lookup(PDFName.of("BaseFont"))
+  const standardWidths =
+    widths instanceof PDFArray || !(baseFont instanceof PDFName) ? null : getStandardFontWidths(baseFont.decodeText())
+
+  return {
+    codeLength: 1,
+    getWidth: (code) => {
+      const width = widths instanceof PDFArray ? getNumber(widths.lookup(code - firstChar)) : undefined
+      if (width !== undefined) return width * scale
+      return standardWidths?.(code) ?? missingWidth * scale
+    },
+  }
+}
+
+interface GraphicsState {
+  ctm: Matrix
+  font: FontMetrics | null
+  fontSize: number
+  charSpacing: number
+  wordSpacing: number
+  // Tz, as a fraction
+  horizontalScale: number
+  leading: number
+  rise: number
+}
+
+interface FilterOptions {
+  context: PDFContext
+  rects: PageRect[]
+  getImagePatch: (bounds: PageRect) => Promise<ImagePatch | null>
+  fonts: Map<PDFDict, FontMetrics>
+}
+
+// Resources are copied before anything is added, as other pages and forms may share them
+const createResourceWriter = (context: PDFContext, resources: PDFDict | undefined) => {
+  let copy: PDFDict | undefined
+  let count = 0
+  return {
+    addXObject: (ref: PDFRef) => {
+      if (!copy) {
+        copy = resources ? resources.clone(context) : context.obj({})
+        const xObjects = copy.lookup(PDFName.of("XObject"))
+        copy.set(PDFName.of("XObject"), xObjects instanceof PDFDict ? xObjects.clone(context) : context.obj({}))
+      }
+      const xObjects = copy.lookup(PDFName.of("XObject")) as PDFDict
+      let name: string
+      do name = `Hidden${++count}`
+      while (xObjects.has(PDFName.of(name)))
+      xObjects.set(PDFName.of(name), ref)
+      return name
+    },
+    getResources: () => copy ?? resources,
+  }
+}
+
+const decodeStream = (stream: PDFStream) => {
+  // Streams pdf-lib created itself, e.g. for flattened form fields
+  if (stream instanceof PDFFlateStream) return stream.getUnencodedContents()
+  try {
+    if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode()
+  } catch {
+    // A filter pdf-lib cannot decode
+  }
+  throw new UnsupportedContentError("The content stream cannot be read")
+}
+
+// Stream entries that describe the old encoding, replaced when the content is written again
+const ENCODING_KEYS = ["Length", "Filter", "DecodeParms"].map((key) => PDFName.of(key))
+
+/**
+ * Rewrites one content stream, following the graphics and text state to find
+ * where each glyph and image lands. Returns null when nothing in it is hidden.
+ */
+const filterContent = async (
+  options: FilterOptions,
+  data: Uint8Array,
+  resources: PDFDict | undefined,
+  baseMatrix: Matrix,
+  depth: number,
+): Promise<{ data: Uint8Array; resources: PDFDict | undefined } | null> => {
+  const { context, rects, getImagePatch, fonts } = options
+  const writer = createResourceWriter(context, resources)
+  const replacements: { start: number; end: number; text: string }[] = []
+  const lookupResource = (category: string, name: string) => {
+    const dict = resources?.lookup(PDFName.of(category))
+    return dict instanceof PDFDict ? dict.lookup(PDFName.of(name)) : undefined
+  }
+
+  let state: GraphicsState = {
+    ctm: baseMatrix,
+    font: null,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+  }
+  const stack: GraphicsState[] = []
+  let textMatrix = IDENTITY
+  let lineMatrix = IDENTITY
+
+  const moveLine = (x: number, y: number) => {
+    lineMatrix = multiplyMatrices([1, 0, 0, 1, x, y], lineMatrix)
+    textMatrix = lineMatrix
+  }
+
+  // Follows the glyphs of a Tj or TJ, returning the TJ array without hidden glyphs, or null if none are hidden
+  const showText = (elements: Operand[]) => {
+    const { font, fontSize, charSpacing, wordSpacing, horizontalScale, rise, ctm } = state
+    if (!font) throw new UnsupportedContentError("Text is shown without a font")
+    const output: string[] = []
+    let kept: number[] = []
+    let adjustment = 0
+    let isChanged = false
+    const flushKept = () => {
+      if (kept.length > 0) output.push(toHexString(kept))
+      kept = []
+    }
+    const flushAdjustment = () => {
+      if (adjustment) output.push(formatNumber(adjustment))
+      adjustment = 0
+    }
+
+    elements.forEach((element) => {
+      if (element.type === "number") {
+        flushKept()
+        adjustment += element.value
+        const shift = (-element.value / 1000) * fontSize * horizontalScale
+        textMatrix = multiplyMatrices([1, 0, 0, 1, shift, 0], textMatrix)
+        return
+      }
+      if (element.type !== "string") return
+
+      const bytes = element.value
+      for (let index = 0; index + font.codeLength <= bytes.length; index += font.codeLength) {
+        const code = font.codeLength === 2 ? (bytes[index] << 8) | bytes[index + 1] : bytes[index]
+        const width = font.getWidth(code)
+        // Word spacing only applies to the single-byte space
+        const spacing = charSpacing + (font.codeLength === 1 && code === 32 ? wordSpacing : 0)
+        const advance = (width * fontSize + spacing) * horizontalScale
+        const middle = transformPoint(
+          (width * fontSize * horizontalScale) / 2,
+          rise + fontSize * GLYPH_MIDDLE,
+          multiplyMatrices(textMatrix, ctm),
+        )
+        if (isInRects(middle, rects)) {
+          // The glyph goes, and the text after it is moved on by as much as the glyph would have
+          flushKept()
+          if (fontSize) adjustment -= ((width * fontSize + spacing) * 1000) / fontSize
+          isChanged = true
+        } else {
+          flushAdjustment()
+          kept.push(...bytes.slice(index, index + font.codeLength))
+        }
+        textMatrix = multiplyMatrices([1, 0, 0, 1, advance, 0], textMatrix)
+      }
+    })
+
+    flushKept()
+    flushAdjustment()
+    return isChanged ? `[${output.join(" ")}] TJ` : null
+  }
+
+  const drawXObject = async (name: string): Promise<string | null> => {
+    const xObject = lookupResource("XObject", name)
+    if (!(xObject instanceof PDFStream)) return null
+    const subtype = xObject.dict.lookup(PDFName.of("Subtype"))
+
+    if (subtype === PDFName.of("Image")) return replaceImage()
+
+    if (subtype !== PDFName.of("Form")) return null
+    if (depth >= MAX_FORM_DEPTH) throw new UnsupportedContentError("Forms are nested too deeply")
+    const matrix = xObject.dict.lookup(PDFName.of("Matrix"))
+    const formMatrix =
+      matrix instanceof PDFArray && matrix.size() === 6
+        ? (matrix.asArray().map((_, index) => getNumber(matrix.lookup(index)) ?? 0) as Matrix)
+        : IDENTITY
+    const formResources = xObject.dict.lookup(PDFName.of("Resources"))
+    const filtered = await filterContent(
+      options,
+      decodeStream(xObject),
+      formResources instanceof PDFDict ? formResources : resources,
+      multiplyMatrices(formMatrix, state.ctm),
+      depth + 1,
+    )
+    if (!filtered) return null
+
+    // The form may be drawn elsewhere too, so the filtered copy gets a name of its own
+    const form = context.flateStream(filtered.data)
+    xObject.dict.entries().forEach(([key, value]) => {
+      if (!ENCODING_KEYS.includes(key)) form.dict.set(key, value)
+    })
+    if (filtered.resources) form.dict.set(PDFName.of("Resources"), filtered.resources)
+    return `/${writer.addXObject(context.register(form))} Do`
+  }
+
+  // Images are drawn in the unit square; one overlapping a hidden area is swapped for a patch, or dropped
+  const replaceImage = async () => {
+    const bounds = getUnitSquareBounds(state.ctm)
+    if (!rects.some((rect) => rectsIntersect(bounds, rect))) return null
+    const patch = await getImagePatch(bounds)
+    const inverse = invert(state.ctm)
+    if (!patch || !inverse) return ""
+    return `q ${formatMatrix(multiplyMatrices(patch.matrix, inverse))} cm /${writer.addXObject(patch.ref)} Do Q`
+  }
+
+  for (const { operator, operands, start, end } of parseOperations(data)) {
+    const numbers = operands.map((operand) => (operand.type === "number" ? operand.value : 0))
+    let replacement: string | null = null
+
+    switch (operator) {
+      case "q":
+        stack.push(state)
+        break
+      case "Q":
+        state = stack.pop() ?? state
+        break
+      case "cm":
+        state = { ...state, ctm: multiplyMatrices(numbers.slice(0, 6) as Matrix, state.ctm) }
+        break
+      case "BT":
+        textMatrix = IDENTITY
+        lineMatrix = IDENTITY
+        break
+      case "Tc":
+        state = { ...state, charSpacing: numbers[0] }
+        break
+      case "Tw":
+        state = { ...state, wordSpacing: numbers[0] }
+        break
+      case "Tz":
+        state = { ...state, horizontalScale: numbers[0] / 100 }
+        break
+      case "TL":
+        state = { ...state, leading: numbers[0] }
+        break
+      case "Ts":
+        state = { ...state, rise: numbers[0] }
+        break
+      case "Tf": {
+        const name = operands[0]?.type === "name" ? operands[0].value : ""
+        const font = lookupResource("Font", name)
+        if (!(font instanceof PDFDict)) throw new UnsupportedContentError(`The font ${name} is missing`)
+        if (!fonts.has(font)) fonts.set(font, loadFontMetrics(font))
+        state = { ...state, font: fonts.get(font)!, fontSize: numbers[1] }
+        break
+      }
+      case "Td":
+        moveLine(numbers[0], numbers[1])
+        break
+      case "TD":
+        state = { ...state, leading: -numbers[1] }
+        moveLine(numbers[0], numbers[1])
+        break
+      case "Tm":
+        lineMatrix = numbers.slice(0, 6) as Matrix
+        textMatrix = lineMatrix
+        break
+      case "T*":
+        moveLine(0, -state.leading)
+        break
+      case "Tj":
+        replacement = showText(operands.slice(0, 1))
+        break
+      case "TJ":
+        replacement = showText(operands[0]?.type === "array" ? operands[0].value : [])
+        break
+      case "'": {
+        moveLine(0, -state.leading)
+        const shown = showText(operands.slice(0, 1))
+        replacement = shown && `T* ${shown}`
+        break
+      }
+      case '"': {
+        state = { ...state, wordSpacing: numbers[0], charSpacing: numbers[1] }
+        moveLine(0, -state.leading)
+        const shown = showText(operands.slice(2, 3))
+        replacement = shown && `${formatNumber(numbers[0])} Tw ${formatNumber(numbers[1])} Tc T* ${shown}`
+        break
+      }
+      case "Do":
+        if (operands[0]?.type === "name") replacement = await drawXObject(operands[0].value)
+        break
+      case "BI":
+        replacement = await replaceImage()
+        break
+    }
+
+    if (replacement !== null) replacements.push({ start, end, text: replacement })
+  }
+
+  if (replacements.length === 0) return null
+  const parts: Uint8Array[] = []
+  let position = 0
+  replacements.forEach(({ start, end, text }) => {
+    parts.push(data.subarray(position, start), toBytes(text))
+    position = end
+  })
+  parts.push(data.subarray(position))
+  return { data: concatBytes(parts), resources: writer.getResources() }
+}
+
+/**
+ * Removes the text and images under `rects` (in user space) from a page's
+ * content, leaving everything else as it was. Text is removed glyph by glyph,
+ * with the glyphs after a gap kept where they were. An image overlapping a
+ * hidden area is replaced by `getImagePatch`'s image of its bounds, or dropped
+ * if there is none.
+ *
+ * Returns false, leaving the page untouched, when the content uses something
+ * the filter cannot follow, e.g. a font encoding it cannot measure.
+ */
+export async function removeHiddenContent(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  rects: PageRect[],
+  getImagePatch: (bounds: PageRect) => Promise<ImagePatch | null>,
+) {
+  const { context } = pdfDoc
+  const options = { context, rects, getImagePatch, fonts: new Map<PDFDict, FontMetrics>() }
+  const resources = page.node.Resources()
+  const contents = page.node.get(PDFName.of("Contents"))
+  const contentArray = context.lookup(contents)
+  const refs = contentArray instanceof PDFArray ? contentArray.asArray() : contents ? [contents] : []
+  const streams = refs.map((ref) => context.lookup(ref))
+
+  try {
+    // Streams pdf-lib made, e.g. for flattened form fields, are still being drawn into and have to stay as they are
+    for (const stream of streams) {
+      if (!(stream instanceof PDFFlateStream)) continue
+      if (await filterContent(options, decodeStream(stream), resources, IDENTITY, 0)) {
+        throw new UnsupportedContentError("Content drawn during the export is hidden")
+      }
+    }
+
+    // The file's own streams are read as one, since operators may run on from one stream into the next
+    const data = concatBytes(
+      streams.flatMap((stream) => (stream instanceof PDFRawStream ? [decodeStream(stream), toBytes("\n")] : [])),
+    )
+    const filtered = await filterContent(options, data, resources, IDENTITY, 0)
+    if (!filtered) return true
+
+    const filteredRef = context.register(context.flateStream(filtered.data))
+    const firstRaw = streams.findIndex((stream) => stream instanceof PDFRawStream)
+    const keptRefs = refs.flatMap((ref, index) => {
+      if (index === firstRaw) return [filteredRef]
+      return streams[index] instanceof PDFRawStream ? [] : [ref]
+    })
+    page.node.set(PDFName.of("Contents"), context.obj(keptRefs))
+    if (filtered.resources) page.node.set(PDFName.of("Resources"), filtered.resources)
+    return true
+  } catch (error) {
+    if (error instanceof UnsupportedContentError) return false
+    throw error
+  }
+}
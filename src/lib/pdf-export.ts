@@ -0,0 +1,899 @@
+import type { PDFDocumentProxy, PageViewport } from "pdfjs-dist"
+import {
+  PDFArray,
+  PDFBool,
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFName,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFRef,
+  PDFStream,
+  PDFTextField,
+  PDFHexString,
+  PDFString,
+  BlendMode,
+  LineCapStyle,
+  LineJoinStyle,
+  StandardFonts,
+  concatTransformationMatrix,
+  EncryptedPDFError,
+  degrees,
+  drawEllipse,
+  drawLine,
+  drawRectangle,
+  drawSvgPath,
+  drawText,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  setLineJoin,
+  type PDFFont,
+  type PDFImage,
+  type PDFObject,
+  type PDFOperator,
+} from "pdf-lib"
+
+import {
+  isMarkupAction,
+  rectsIntersect,
+  TEXT_BOX_PADDING,
+  type EditState,
+  type PageEntry,
+  type PageRect,
+  type Point,
+  type TextBox,
+} from "@/lib/edit-model"
+import { cropCanvas, getHiddenBounds, getPageViewport, getSourcePage, renderPageWithEdits } from "@/lib/edit-render"
+import type { ImageStamp } from "@/lib/image-stamp"
+import { getArrowHead, getMarkupBounds, getMarkupStroke, HIGHLIGHT_OPACITY, type MarkupAction } from "@/lib/markup"
+import type { AnnotationEdit, FormValue } from "@/lib/pdf-annotations"
+import { multiplyMatrices, removeHiddenContent } from "@/lib/pdf-content"
+import {
+  UNDERLINE_OFFSET,
+  UNDERLINE_THICKNESS,
+  getStandardFont,
+  layoutText,
+  type FontStyle,
+  type TextLayout,
+} from "@/lib/text-layout"
+
+// Whether text boxes and markup are drawn into the page content or added as annotations
+export type ExportMode = "flatten" | "annotate"
+
+// Canvas pixels per page unit used for flattened pages and patches on export
+const EXPORT_SCALE = 2
+
+// Color components from 0 to 1, as used in annotation dictionaries
+const hexToComponents = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace("#", ""), 16)
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255]
+}
+
+const hexToPdfColor = (hex: string) => rgb(...hexToComponents(hex))
+
+/**
+ * Maps "display space" (points, origin at the bottom-left of the page as shown
+ * on screen) to the page's user space, accounting for crop box offsets and
+ * page rotation. Overlays are drawn in display space under this matrix.
+ */
+const getDisplayToUserMatrix = (viewport: PageViewport): [number, number, number, number, number, number] => {
+  const [originX, originY] = viewport.convertToPdfPoint(0, viewport.height)
+  const [unitXx, unitXy] = viewport.convertToPdfPoint(1, viewport.height)
+  const [unitYx, unitYy] = viewport.convertToPdfPoint(0, viewport.height - 1)
+  return [unitXx - originX, unitXy - originY, unitYx - originX, unitYy - originY, originX, originY]
+}
+
+const toDisplayRect = (rect: PageRect, viewport: PageViewport) => ({
+  x: rect.x,
+  y: viewport.height - rect.y - rect.height,
+  width: rect.width,
+  height: rect.height,
+})
+
+/**
+ * drawImage options for a stamp. pdf-lib turns images counterclockwise about
+ * their bottom-left corner, so that corner goes where turning the stamp
+ * clockwise about its centre puts it.
+ */
+const getStampPlacement = (stamp: ImageStamp, viewport: PageViewport) => {
+  const { x, y, width, height } = toDisplayRect(stamp, viewport)
+  const angle = (-stamp.rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return {
+    x: x + width / 2 - (width / 2) * cos + (height / 2) * sin,
+    y: y + height / 2 - (width / 2) * sin - (height / 2) * cos,
+    width,
+    height,
+    rotate: degrees(-stamp.rotation),
+  }
+}
+
+// Draws markup as vectors, in display space under getDisplayToUserMatrix
+const drawMarkup = (page: PDFPage, markup: MarkupAction, viewport: PageViewport) => {
+  const color = hexToPdfColor(markup.color)
+
+  if (markup.type === "highlight") {
+    page.drawRectangle({
+      ...toDisplayRect(markup, viewport),
+      color,
+      opacity: HIGHLIGHT_OPACITY,
+      blendMode: BlendMode.Multiply,
+    })
+  } else if (markup.type === "rectangle") {
+    page.drawRectangle({ ...toDisplayRect(markup, viewport), borderColor: color, borderWidth: markup.strokeWidth })
+  } else if (markup.type === "ellipse") {
+    const bounds = toDisplayRect(markup, viewport)
+    page.drawEllipse({
+      x: bounds.x + bounds.width / 2,
+      y: bounds.y + bounds.height / 2,
+      xScale: bounds.width / 2,
+      yScale: bounds.height / 2,
+      borderColor: color,
+      borderWidth: markup.strokeWidth,
+    })
+  } else {
+    // SVG paths are drawn y-down from the given origin, matching page units
+    page.drawSvgPath(toSvgPath(getMarkupStroke(markup), false), {
+      x: 0,
+      y: viewport.height,
+      borderColor: color,
+      borderWidth: markup.strokeWidth,
+      borderLineCap: LineCapStyle.Round,
+    })
+    if (markup.type === "arrow") {
+      page.drawSvgPath(toSvgPath(getArrowHead(markup)), { x: 0, y: viewport.height, color })
+    }
+  }
+}
+
+const NO_ROTATION = { rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0) }
+
+// Points in page units as a flat list of user space coordinates
+const toUserPoints = (points: Point[], viewport: PageViewport) =>
+  points.flatMap((point) => viewport.convertToPdfPoint(point.x, point.y))
+
+/**
+ * Adds an annotation covering `bounds` (page units) to the page. Its appearance
+ * is drawn in display space, like the flattened overlays, and the form matrix
+ * maps it onto the page, so viewers that do not generate appearances of their
+ * own show it the same way.
+ */
+const addAnnotation = (
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  viewport: PageViewport,
+  bounds: PageRect,
+  annotation: PDFDict,
+  appearance: PDFOperator[],
+  resources: PDFDict,
+) => {
+  const { context } = pdfDoc
+  const box = toDisplayRect(bounds, viewport)
+  const rect = toUserRect(bounds, viewport)
+  const appearanceStream = context.formXObject([setLineJoin(LineJoinStyle.Round), ...appearance], {
+    BBox: [box.x, box.y, box.x + box.width, box.y + box.height],
+    Matrix: getDisplayToUserMatrix(viewport),
+    Resources: resources,
+  })
+
+  annotation.set(PDFName.of("Type"), PDFName.of("Annot"))
+  annotation.set(PDFName.of("Rect"), context.obj([rect.x, rect.y, rect.x + rect.width, rect.y + rect.height]))
+  annotation.set(PDFName.of("P"), page.ref)
+  // Printable, like the rest of the page
+  annotation.set(PDFName.of("F"), context.obj(4))
+  annotation.set(PDFName.of("M"), PDFString.fromDate(new Date()))
+  annotation.set(PDFName.of("AP"), context.obj({ N: context.register(appearanceStream) }))
+  page.node.addAnnot(context.register(annotation))
+}
+
+// Opacity and blending for annotation appearances, which have no page to register them on
+const getAppearanceState = (pdfDoc: PDFDocument, opacity: number, blendMode?: BlendMode) =>
+  pdfDoc.context.obj({ ExtGState: { GS0: { Type: "ExtGState", ca: opacity, BM: blendMode ?? "Normal" } } })
+
+/**
+ * Adds markup as the closest standard annotation: Highlight, Square, Circle,
+ * Ink, or Line (with an arrowhead for arrows). Underlines and strike-throughs
+ * are Line annotations, since they are drawn freely rather than over text.
+ */
+const addMarkupAnnotation = (pdfDoc: PDFDocument, page: PDFPage, markup: MarkupAction, viewport: PageViewport) => {
+  const { context } = pdfDoc
+  const color = hexToPdfColor(markup.color)
+  const bounds = getMarkupBounds(markup)
+
+  if (markup.type === "highlight") {
+    // Corners in the order top-left, top-right, bottom-left, bottom-right of the highlight as displayed
+    const { x, y, width, height } = markup
+    const quadPoints = [
+      { x, y },
+      { x: x + width, y },
+      { x, y: y + height },
+      { x: x + width, y: y + height },
+    ]
+    addAnnotation(
+      pdfDoc,
+      page,
+      viewport,
+      bounds,
+      context.obj({
+        Subtype: "Highlight",
+        QuadPoints: toUserPoints(quadPoints, viewport),
+        C: hexToComponents(markup.color),
+        CA: HIGHLIGHT_OPACITY,
+      }),
+      drawRectangle({
+        ...toDisplayRect(markup, viewport),
+        ...NO_ROTATION,
+        color,
+        borderColor: undefined,
+        borderWidth: 0,
+        graphicsState: "GS0",
+      }),
+      getAppearanceState(pdfDoc, HIGHLIGHT_OPACITY, BlendMode.Multiply),
+    )
+    return
+  }
+
+  const style = { C: hexToComponents(markup.color), BS: { W: markup.strokeWidth } }
+  const stroke = { color: undefined, borderColor: color, borderWidth: markup.strokeWidth }
+  const resources = getAppearanceState(pdfDoc, 1)
+
+  if (markup.type === "rectangle") {
+    addAnnotation(
+      pdfDoc,
+      page,
+      viewport,
+      bounds,
+      context.obj({ Subtype: "Square", ...style }),
+      drawRectangle({ ...toDisplayRect(markup, viewport), ...NO_ROTATION, ...stroke }),
+      resources,
+    )
+  } else if (markup.type === "ellipse") {
+    const box = toDisplayRect(markup, viewport)
+    addAnnotation(
+      pdfDoc,
+      page,
+      viewport,
+      bounds,
+      context.obj({ Subtype: "Circle", ...style }),
+      drawEllipse({
+        x: box.x + box.width / 2,
+        y: box.y + box.height / 2,
+        xScale: box.width / 2,
+        yScale: box.height / 2,
+        ...stroke,
+      }),
+      resources,
+    )
+  } else {
+    // SVG paths are drawn y-down from the given origin, matching page units
+    const path = { x: 0, y: viewport.height, scale: 1 }
+    const appearance = drawSvgPath(toSvgPath(getMarkupStroke(markup), false), {
+      ...path,
+      ...stroke,
+      borderLineCap: LineCapStyle.Round,
+    })
+    if (markup.type === "arrow") {
+      appearance.push(
+        ...drawSvgPath(toSvgPath(getArrowHead(markup)), { ...path, color, borderColor: undefined, borderWidth: 0 }),
+      )
+    }
+
+    const annotation =
+      markup.type === "pen"
+        ? context.obj({ Subtype: "Ink", InkList: [toUserPoints(markup.points, viewport)], ...style })
+        : context.obj({
+            Subtype: "Line",
+            L: toUserPoints([markup.start, markup.end], viewport),
+            LE: ["None", markup.type === "arrow" ? "ClosedArrow" : "None"],
+            IC: hexToComponents(markup.color),
+            ...style,
+          })
+    addAnnotation(pdfDoc, page, viewport, bounds, annotation, appearance, resources)
+  }
+}
+
+const TEXT_ALIGN_QUADDING = { left: 0, center: 1, right: 2 }
+
+// Adds a text box as a FreeText annotation, laid out the same as in the editor
+const addTextBoxAnnotation = (
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  textBox: TextBox,
+  layout: TextLayout,
+  font: PDFFont,
+  viewport: PageViewport,
+) => {
+  const { context } = pdfDoc
+  const { fontSize, opacity } = textBox
+  const color = hexToPdfColor(textBox.color)
+  const bounds = { x: textBox.x, y: textBox.y, width: layout.width, height: layout.height }
+  const appearance: PDFOperator[] = []
+
+  if (textBox.backgroundColor) {
+    appearance.push(
+      ...drawRectangle({
+        ...toDisplayRect(bounds, viewport),
+        ...NO_ROTATION,
+        color: hexToPdfColor(textBox.backgroundColor),
+        borderColor: undefined,
+        borderWidth: 0,
+        graphicsState: "GS0",
+      }),
+    )
+  }
+
+  layout.lines.forEach((line) => {
+    if (!line.text) return
+    const baseline = toDisplayRect(
+      { x: textBox.x + line.x, y: textBox.y + line.baseline, width: 0, height: 0 },
+      viewport,
+    )
+    appearance.push(
+      ...drawText(font.encodeText(line.text), {
+        ...NO_ROTATION,
+        x: baseline.x,
+        y: baseline.y,
+        size: fontSize,
+        font: "F0",
+        color,
+        graphicsState: "GS0",
+      }),
+    )
+
+    if (textBox.underline) {
+      const y = baseline.y - fontSize * UNDERLINE_OFFSET
+      appearance.push(
+        ...drawLine({
+          start: { x: baseline.x, y },
+          end: { x: baseline.x + line.width, y },
+          thickness: fontSize * UNDERLINE_THICKNESS,
+          color,
+          graphicsState: "GS0",
+        }),
+      )
+    }
+  })
+
+  const resources = getAppearanceState(pdfDoc, opacity)
+  resources.set(PDFName.of("Font"), context.obj({ F0: font.ref }))
+  const [red, green, blue] = hexToComponents(textBox.color)
+  addAnnotation(
+    pdfDoc,
+    page,
+    viewport,
+    bounds,
+    context.obj({
+      Subtype: "FreeText",
+      Contents: PDFHexString.fromText(textBox.text),
+      // Viewers that regenerate the appearance, e.g. after an edit, start from these
+      DA: PDFString.of(`/Helv ${fontSize} Tf ${red} ${green} ${blue} rg`),
+      Q: TEXT_ALIGN_QUADDING[textBox.align],
+      Rotate: viewport.rotation,
+      CA: opacity,
+    }),
+    appearance,
+    resources,
+  )
+}
+
+const toUserRect = (rect: PageRect, viewport: PageViewport) => {
+  const corners = [
+    viewport.convertToPdfPoint(rect.x, rect.y),
+    viewport.convertToPdfPoint(rect.x + rect.width, rect.y + rect.height),
+  ]
+  const xs = corners.map(([x]) => x)
+  const ys = corners.map(([, y]) => y)
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  }
+}
+
+const toSvgPath = (points: Point[], closed = true) =>
+  points.map((point, index) => `${index === 0 ? "M" : "L"} ${point.x} ${point.y}`).join(" ") + (closed ? " Z" : "")
+
+/**
+ * Drops the annotations and form fields under `redactedRects` (given in user
+ * space), or every annotation without them.
+ */
+const removeCoveredAnnotations = (pdfDoc: PDFDocument, page: PDFPage, redactedRects?: PageRect[]) => {
+  const { context } = pdfDoc
+  const rectName = PDFName.of("Rect")
+  const annotations = page.node.Annots()?.asArray() || []
+  const isRedacted = (annotation: PDFObject | undefined) => {
+    if (!(annotation instanceof PDFDict)) return false
+    if (!redactedRects) return true
+    const rect = annotation.lookup(rectName)
+    return rect instanceof PDFArray && redactedRects.some((redacted) => rectsIntersect(rect.asRectangle(), redacted))
+  }
+
+  // Form fields are removed through the form so their values go with them. Only
+  // widgets on this page count, since rects from other pages share coordinates.
+  if (pdfDoc.catalog.get(PDFName.of("AcroForm"))) {
+    const form = pdfDoc.getForm()
+    const isOnPage = (widget: PDFDict) => annotations.some((ref) => context.lookup(ref) === widget)
+    form.getFields().forEach((field) => {
+      if (field.acroField.getWidgets().some((widget) => isOnPage(widget.dict) && isRedacted(widget.dict))) {
+        form.removeField(field)
+      }
+    })
+  }
+
+  const keptAnnotations = annotations.filter((ref) => !isRedacted(context.lookup(ref)))
+  page.node.set(PDFName.of("Annots"), context.obj(keptAnnotations))
+}
+
+/**
+ * Drops the page's original content and any annotations/form fields under
+ * the redacted regions (given in user space), leaving an empty page for the
+ * flattened render to be drawn onto. Without regions, every annotation goes.
+ */
+const clearRedactedPage = (pdfDoc: PDFDocument, page: PDFPage, redactedRects?: PageRect[]) => {
+  const { context } = pdfDoc
+  removeCoveredAnnotations(pdfDoc, page, redactedRects)
+  page.node.set(PDFName.of("Contents"), context.obj([]))
+  page.node.set(PDFName.of("Resources"), context.obj({ Font: {}, XObject: {}, ExtGState: {} }))
+}
+
+// PDF.js identifies annotations by their object reference, e.g. "12R", or "12R3" for generation 3
+const getAnnotationId = (ref: PDFRef) => `${ref.objectNumber}R${ref.generationNumber || ""}`
+
+/**
+ * Writes the editor's changes to a page's own annotations. Form fields are
+ * removed along with their last widget. Changed annotations lose their appearance
+ * stream, so viewers draw them again with the new text and color.
+ */
+const applyAnnotationEdits = (pdfDoc: PDFDocument, page: PDFPage, edits: { [id: string]: AnnotationEdit }) => {
+  const { context } = pdfDoc
+  const annotations = page.node.Annots()?.asArray() || []
+  const deleted = new Set<PDFObject>()
+
+  annotations.forEach((ref) => {
+    const edit = ref instanceof PDFRef ? edits[getAnnotationId(ref)] : undefined
+    const annotation = context.lookup(ref)
+    if (!edit || !(annotation instanceof PDFDict)) return
+
+    if (edit.deleted) {
+      deleted.add(annotation)
+      // The popup showing the annotation's comment goes with it
+      const popup = annotation.lookup(PDFName.of("Popup"))
+      if (popup) deleted.add(popup)
+      return
+    }
+
+    const isFreeText = annotation.lookup(PDFName.of("Subtype")) === PDFName.of("FreeText")
+    if (edit.contents !== undefined) annotation.set(PDFName.of("Contents"), PDFHexString.fromText(edit.contents))
+    if (edit.color) annotation.set(PDFName.of("C"), context.obj(hexToComponents(edit.color)))
+    if (edit.color || (isFreeText && edit.contents !== undefined)) annotation.delete(PDFName.of("AP"))
+  })
+  if (deleted.size === 0) return
+
+  // Worked out first, since removing a field also deletes its widget objects
+  const remaining = annotations.filter((ref) => !deleted.has(context.lookup(ref) as PDFObject))
+  // A radio group keeps the buttons that are left
+  if (pdfDoc.catalog.get(PDFName.of("AcroForm"))) {
+    const form = pdfDoc.getForm()
+    form.getFields().forEach((field) => {
+      const widgets = field.acroField.getWidgets()
+      if (widgets.length > 0 && widgets.every((widget) => deleted.has(widget.dict))) form.removeField(field)
+    })
+  }
+  page.node.set(PDFName.of("Annots"), context.obj(remaining))
+}
+
+/**
+ * Fills a document's form with the values entered in the editor, and flattens
+ * the form into the page content if asked to. The document is saved without
+ * updating field appearances, so the changed fields are drawn here.
+ */
+const applyFormValues = async (pdfDoc: PDFDocument, values: { [field: string]: FormValue }, flatten: boolean) => {
+  if (!pdfDoc.catalog.get(PDFName.of("AcroForm"))) return
+  if (Object.keys(values).length === 0 && !flatten) return
+
+  const form = pdfDoc.getForm()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const updateAppearances = (field: PDFTextField | PDFDropdown | PDFOptionList) => {
+    try {
+      field.updateAppearances(font)
+    } catch (error) {
+      // Text the standard font cannot encode is left for the viewer to draw, which a flattened form cannot do
+      if (flatten) throw error
+      form.acroForm.dict.set(PDFName.of("NeedAppearances"), PDFBool.True)
+      form.markFieldAsClean(field.ref)
+    }
+  }
+
+  Object.entries(values).forEach(([name, value]) => {
+    const field = form.getFieldMaybe(name)
+    if (field instanceof PDFCheckBox) {
+      if (value === true) field.check()
+      else field.uncheck()
+    } else if (field instanceof PDFRadioGroup) {
+      // Radio buttons are selected by their appearance state name, which is the value PDF.js reports
+      field.acroField.setValue(PDFName.of(value === "" ? "Off" : String(value)))
+    } else if (field instanceof PDFTextField) {
+      field.setText(String(value))
+      updateAppearances(field)
+    } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+      // pdf-lib selects options by their label, while the form stores the export value
+      field.acroField.dict.set(PDFName.of("V"), PDFHexString.fromText(String(value)))
+      field.acroField.dict.delete(PDFName.of("I"))
+      updateAppearances(field)
+    }
+  })
+
+  if (flatten) form.flatten()
+}
+
+// pdf-lib cannot decrypt, so password-protected documents load as null
+const loadEditableDocument = async (file: File) => {
+  try {
+    return await PDFDocument.load(await file.arrayBuffer())
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) return null
+    throw error
+  }
+}
+
+/**
+ * Loads the source documents for export. The first document is edited in place
+ * so its metadata and outline survive; pages used from the others are copied
+ * into it. Pages of encrypted documents become empty pages of the same size,
+ * to be flattened from their render. Returns the pages of each document by
+ * page index, and the indices of the encrypted documents.
+ */
+const loadSourceDocuments = async (
+  files: File[],
+  pdfjsDocs: PDFDocumentProxy[],
+  entries: PageEntry[],
+  { annotationEdits, formValues }: Pick<EditState, "annotationEdits" | "formValues">,
+  flattenForm: boolean,
+) => {
+  const editableDocs = await Promise.all(files.map(loadEditableDocument))
+
+  // Applied before pages are copied, while annotation references still match the ones PDF.js reported,
+  // and while each document still has its own form
+  entries.forEach((entry, index) => {
+    const edits = annotationEdits[index + 1]
+    if (!edits || entry.source.type !== "pdf") return
+    const editableDoc = editableDocs[entry.source.documentIndex]
+    if (editableDoc) applyAnnotationEdits(editableDoc, editableDoc.getPage(entry.source.pageNumber - 1), edits)
+  })
+  for (let index = 0; index < editableDocs.length; index++) {
+    const editableDoc = editableDocs[index]
+    if (editableDoc) await applyFormValues(editableDoc, formValues[index] ?? {}, flattenForm)
+  }
+  const pdfDoc = editableDocs[0] ?? (await PDFDocument.create())
+  const sourcePages: PDFPage[][] = []
+  const encryptedDocs = new Set<number>()
+
+  for (let index = 0; index < files.length; index++) {
+    const editableDoc = editableDocs[index]
+    if (editableDoc === pdfDoc) {
+      sourcePages.push(pdfDoc.getPages())
+      continue
+    }
+
+    const pageNumbers = entries.flatMap((entry) =>
+      entry.source.type === "pdf" && entry.source.documentIndex === index ? [entry.source.pageNumber] : [],
+    )
+    const pages: PDFPage[] = []
+    if (editableDoc) {
+      const copiedPages = await pdfDoc.copyPages(editableDoc, pageNumbers.map((pageNumber) => pageNumber - 1))
+      pageNumbers.forEach((pageNumber, copyIndex) => {
+        pages[pageNumber - 1] = copiedPages[copyIndex]
+      })
+    } else {
+      encryptedDocs.add(index)
+      for (const pageNumber of pageNumbers) {
+        const { view, rotate } = await pdfjsDocs[index].getPage(pageNumber)
+        const page = PDFPage.create(pdfDoc)
+        page.setMediaBox(view[0], view[1], view[2] - view[0], view[3] - view[1])
+        page.setRotation(degrees(rotate))
+        pages[pageNumber - 1] = page
+      }
+    }
+    sourcePages.push(pages)
+  }
+
+  return { pdfDoc, sourcePages, encryptedDocs }
+}
+
+/**
+ * Puts the document's pages into the editor's order and rotation, inserting
+ * blank pages. Pages left out are emptied as well as removed, since links and
+ * bookmarks elsewhere may still reference them.
+ */
+const arrangeDocumentPages = (pdfDoc: PDFDocument, sourcePages: PDFPage[][], entries: PageEntry[]) => {
+  const ownPages = pdfDoc.getPages()
+  for (let index = ownPages.length - 1; index >= 0; index--) pdfDoc.removePage(index)
+
+  const usedPages = new Set<PDFPage>()
+  entries.forEach((entry, index) => {
+    if (entry.source.type === "blank") {
+      pdfDoc.insertPage(index, [entry.source.width, entry.source.height]).setRotation(degrees(entry.rotation))
+      return
+    }
+    const page = sourcePages[entry.source.documentIndex][entry.source.pageNumber - 1]
+    usedPages.add(page)
+    pdfDoc.insertPage(index, page)
+    page.setRotation(degrees((page.getRotation().angle + entry.rotation) % 360))
+  })
+
+  // Only pages in use were copied or created for the other documents
+  ownPages.forEach((page) => {
+    if (!usedPages.has(page)) clearRedactedPage(pdfDoc, page)
+  })
+}
+
+/**
+ * pdf-lib writes every object it has loaded, so content streams and images
+ * that are no longer referenced (e.g. from redacted pages) have to be dropped
+ * explicitly before saving.
+ */
+const removeUnreachableObjects = (pdfDoc: PDFDocument) => {
+  const { context } = pdfDoc
+  const reachable = new Set<PDFRef>()
+  const pending: (PDFObject | undefined)[] = [context.trailerInfo.Root, context.trailerInfo.Info]
+
+  while (pending.length > 0) {
+    const object = pending.pop()
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue
+      reachable.add(object)
+      pending.push(context.lookup(object))
+    } else if (object instanceof PDFDict) {
+      object.entries().forEach(([, value]) => pending.push(value))
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray())
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict)
+    }
+  }
+
+  context.enumerateIndirectObjects().forEach(([ref]) => {
+    if (!reachable.has(ref)) context.delete(ref)
+  })
+}
+
+export interface ExportOptions {
+  mode: ExportMode
+  flattenForm: boolean
+  // Only these page numbers are kept, e.g. to extract a range
+  pageNumbers?: number[]
+}
+
+/**
+ * Builds the edited PDF from the source files and an editor state. In "annotate"
+ * mode, text boxes and markup become PDF annotations instead of page content.
+ */
+export async function exportDocument(
+  files: File[],
+  pdfjsDocs: PDFDocumentProxy[],
+  state: EditState,
+  { mode, flattenForm, pageNumbers }: ExportOptions,
+) {
+  const { pages, editActions, textBoxes, images } = state
+
+  // Edit the original documents in place so text, links, bookmarks and metadata survive
+  const { pdfDoc, sourcePages, encryptedDocs } = await loadSourceDocuments(files, pdfjsDocs, pages, state, flattenForm)
+  arrangeDocumentPages(pdfDoc, sourcePages, pages)
+  const outputPages = pdfDoc.getPages()
+  const white = rgb(1, 1, 1)
+
+  const fonts = new Map<string, PDFFont>()
+  const embeddedImages = new Map<string, PDFImage>()
+  const getFont = async (style: FontStyle) => {
+    const name = getStandardFont(style)
+    if (!fonts.has(name)) fonts.set(name, await pdfDoc.embedFont(name))
+    return fonts.get(name)!
+  }
+
+  for (let i = 1; i <= pages.length; i++) {
+    const actions = editActions[i] || []
+    const pageTextBoxes = (textBoxes[i] || []).filter((textBox) => textBox.text.trim())
+    const entry = pages[i - 1]
+    const isEncrypted = entry.source.type === "pdf" && encryptedDocs.has(entry.source.documentIndex)
+    const pageImages = images[i] || []
+    if (actions.length === 0 && pageTextBoxes.length === 0 && pageImages.length === 0 && !isEncrypted) continue
+    if (pageNumbers && !pageNumbers.includes(i)) continue
+
+    const pdfPage = await getSourcePage(pdfjsDocs, entry)
+    const viewport = getPageViewport(pdfPage, entry, 1)
+    const page = outputPages[i - 1]
+    const redactions = actions.flatMap((action) => (action.type === "redact" ? action.regions : []))
+    // Blurred or erased text would still be in the text layer, however well it is covered
+    const hiddenAreas = actions.flatMap((action) => {
+      const bounds = getHiddenBounds(action, viewport)
+      return bounds ? [bounds] : []
+    })
+    const hiddenRects = hiddenAreas.map((area) => toUserRect(area, viewport))
+
+    // Markup is drawn as vectors or annotations on top, so it stays out of the patches
+    const patchActions = actions.filter((action) => !isMarkupAction(action))
+    let patchSource: Promise<HTMLCanvasElement> | null = null
+    const embedPatch = async (rect: PageRect) => {
+      patchSource ??= renderPageWithEdits(pdfPage, entry, patchActions, EXPORT_SCALE, isEncrypted)
+      return pdfDoc.embedPng(cropCanvas(await patchSource, rect, EXPORT_SCALE))
+    }
+    // Images under a hidden area are swapped for the render of their bounds, which has the blur or erasure in it
+    const getImagePatch = async (bounds: PageRect) => {
+      const [left, top, right, bottom] = viewport.convertToViewportRectangle([
+        bounds.x,
+        bounds.y,
+        bounds.x + bounds.width,
+        bounds.y + bounds.height,
+      ])
+      const x = Math.max(0, Math.min(left, right))
+      const y = Math.max(0, Math.min(top, bottom))
+      const rect = {
+        x,
+        y,
+        width: Math.min(viewport.width, Math.max(left, right)) - x,
+        height: Math.min(viewport.height, Math.max(top, bottom)) - y,
+      }
+      if (rect.width <= 0 || rect.height <= 0) return null
+      const image = await embedPatch(rect)
+      const placement = toDisplayRect(rect, viewport)
+      return {
+        ref: image.ref,
+        matrix: multiplyMatrices(
+          [placement.width, 0, 0, placement.height, placement.x, placement.y],
+          getDisplayToUserMatrix(viewport),
+        ),
+      }
+    }
+
+    // Redacted pages are replaced by their render with the redactions (and other edits) burned in,
+    // so nothing under them survives. Pages of encrypted documents have no content of their own and
+    // are filled the same way, as are pages whose blurred or erased content cannot be picked out.
+    let isFlattened = redactions.length > 0 || isEncrypted
+    if (!isFlattened && hiddenAreas.length > 0) {
+      isFlattened = !(await removeHiddenContent(pdfDoc, page, hiddenRects, getImagePatch))
+      if (!isFlattened) removeCoveredAnnotations(pdfDoc, page, hiddenRects)
+    }
+
+    let pageImage: PDFImage | null = null
+    if (isFlattened) {
+      // Markup is burned into the render in "flatten" mode
+      const renderedActions = mode === "flatten" ? actions : patchActions
+      const rendered = await renderPageWithEdits(pdfPage, entry, renderedActions, EXPORT_SCALE, isEncrypted)
+      pageImage = await pdfDoc.embedPng(rendered.toDataURL("image/png"))
+      clearRedactedPage(pdfDoc, page, [...redactions.map((region) => toUserRect(region, viewport)), ...hiddenRects])
+    }
+
+    const blurPatches = await Promise.all(
+      actions.map(async (action) => {
+        if (isFlattened || (action.type !== "blur" && action.type !== "blur-region")) return null
+        const bounds = getHiddenBounds(action, viewport)
+        return bounds ? { bounds, image: await embedPatch(bounds) } : null
+      }),
+    )
+
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(...getDisplayToUserMatrix(viewport)),
+      // Matches the round joins of markup drawn in the editor
+      setLineJoin(LineJoinStyle.Round),
+    )
+
+    if (pageImage) {
+      page.drawImage(pageImage, toDisplayRect({ x: 0, y: 0, width: viewport.width, height: viewport.height }, viewport))
+    }
+
+    actions.forEach((action, index) => {
+      if (action.type === "erase" && !isFlattened) {
+        action.strokes.forEach((stroke) => {
+          const center = toDisplayRect({ x: stroke.x, y: stroke.y, width: 0, height: 0 }, viewport)
+          page.drawCircle({ x: center.x, y: center.y, size: stroke.size / 2, color: white })
+        })
+      }
+
+      if (action.type === "erase-region" && !isFlattened) {
+        const { shape } = action
+        if (shape.kind === "rectangle") {
+          page.drawRectangle({ ...toDisplayRect(shape, viewport), color: white })
+        } else if (shape.kind === "ellipse") {
+          const bounds = toDisplayRect(shape, viewport)
+          page.drawEllipse({
+            x: bounds.x + bounds.width / 2,
+            y: bounds.y + bounds.height / 2,
+            xScale: bounds.width / 2,
+            yScale: bounds.height / 2,
+            color: white,
+          })
+        } else {
+          // SVG paths are drawn y-down from the given origin, matching page units
+          page.drawSvgPath(toSvgPath(shape.points), { x: 0, y: viewport.height, color: white })
+        }
+      }
+
+      const patch = blurPatches[index]
+      if (patch) {
+        page.drawImage(patch.image, toDisplayRect(patch.bounds, viewport))
+      }
+
+      if (isMarkupAction(action)) {
+        if (mode === "annotate") addMarkupAnnotation(pdfDoc, page, action, viewport)
+        else if (!isFlattened) drawMarkup(page, action, viewport)
+      }
+    })
+
+    // Drawn again as vectors so the boxes stay crisp at any zoom
+    redactions.forEach((region) => {
+      page.drawRectangle({ ...toDisplayRect(region, viewport), color: hexToPdfColor(region.color) })
+    })
+
+    // Embedded as images rather than flattened, and shared when the same image is stamped repeatedly
+    for (const stamp of pageImages) {
+      if (!embeddedImages.has(stamp.src)) {
+        const isJpeg = stamp.src.startsWith("data:image/jpeg")
+        embeddedImages.set(stamp.src, await (isJpeg ? pdfDoc.embedJpg(stamp.src) : pdfDoc.embedPng(stamp.src)))
+      }
+      page.drawImage(embeddedImages.get(stamp.src)!, getStampPlacement(stamp, viewport))
+    }
+
+    for (const textBox of pageTextBoxes) {
+      // Same layout as the editor overlay, so lines break and align identically
+      const font = await getFont(textBox)
+      const layout = layoutText({ ...textBox, padding: TEXT_BOX_PADDING }, font)
+      if (mode === "annotate") {
+        addTextBoxAnnotation(pdfDoc, page, textBox, layout, font, viewport)
+        continue
+      }
+
+      const color = hexToPdfColor(textBox.color)
+      const { opacity, fontSize } = textBox
+
+      if (textBox.backgroundColor) {
+        const box = { x: textBox.x, y: textBox.y, width: layout.width, height: layout.height }
+        page.drawRectangle({
+          ...toDisplayRect(box, viewport),
+          color: hexToPdfColor(textBox.backgroundColor),
+          opacity,
+        })
+      }
+
+      layout.lines.forEach((line) => {
+        if (!line.text) return
+        const baseline = toDisplayRect(
+          { x: textBox.x + line.x, y: textBox.y + line.baseline, width: 0, height: 0 },
+          viewport,
+        )
+        page.drawText(line.text, { x: baseline.x, y: baseline.y, size: fontSize, font, color, opacity })
+
+        if (textBox.underline) {
+          const y = baseline.y - fontSize * UNDERLINE_OFFSET
+          page.drawLine({
+            start: { x: baseline.x, y },
+            end: { x: baseline.x + line.width, y },
+            thickness: fontSize * UNDERLINE_THICKNESS,
+            color,
+            opacity,
+          })
+        }
+      })
+    }
+
+    page.pushOperators(popGraphicsState())
+  }
+
+  if (pageNumbers) {
+    for (let index = outputPages.length - 1; index >= 0; index--) {
+      if (pageNumbers.includes(index + 1)) continue
+      clearRedactedPage(pdfDoc, outputPages[index])
+      pdfDoc.removePage(index)
+    }
+  }
+
+  removeUnreachableObjects(pdfDoc)
+
+  return pdfDoc.save({ updateFieldAppearances: false })
+}
@@ -0,0 +1,140 @@
+import type * as PDFJS from "pdfjs-dist"
+import type { DocumentInitParameters } from "pdfjs-dist/types/src/display/api"
+import { PDFDocument } from "pdf-lib"
+
+let pdfjsPromise: Promise<typeof PDFJS> | null = null
+// Passed with every document that is opened, on top of the editor's own options
+let documentOptions: DocumentInitParameters = {}
+
+/**
+ * Loads PDF.js on demand (it touches browser-only globals at import time, so
+ * it cannot be evaluated during server rendering) and points it at the worker
+ * bundled with the app rather than a CDN copy.
+ */
+export function loadPdfJs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist")
+      .then((pdfjs) => {
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+        return pdfjs
+      })
+      .catch((error) => {
+        // Allow a later call to retry instead of caching the failure
+        pdfjsPromise = null
+        throw error
+      })
+  }
+  return pdfjsPromise
+}
+
+/**
+ * Uses an already loaded PDF.js build instead of the browser one, e.g. the
+ * legacy build, which is the one that runs in Node. `options` are added to
+ * every document opened, e.g. where to read the standard fonts from, which
+ * Node cannot take from the system.
+ */
+export function setPdfJs(pdfjs: typeof PDFJS, options: DocumentInitParameters = {}) {
+  pdfjsPromise = Promise.resolve(pdfjs)
+  documentOptions = options
+}
+
+// Larger files take too long to render and export in the browser
+export const MAX_PDF_SIZE = 100 * 1024 * 1024
+
+/** A PDF that cannot be opened, with a message that can be shown to the user as-is. */
+export class PdfFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PdfFileError"
+  }
+}
+
+const formatSize = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`
+
+/** Checks a file before it is parsed. Throws a PdfFileError if it is not a PDF or is too large. */
+export async function checkPdfFile(file: File) {
+  if (file.size === 0) {
+    throw new PdfFileError(`"${file.name}" is empty.`)
+  }
+  if (file.size > MAX_PDF_SIZE) {
+    throw new PdfFileError(
+      `"${file.name}" is ${formatSize(file.size)}, which is over the ${formatSize(MAX_PDF_SIZE)} limit.`,
+    )
+  }
+  // Browsers report no type for some PDFs, so the header decides
+  const header = await file.slice(0, 1024).text()
+  if (!header.includes("%PDF-")) {
+    throw new PdfFileError(`"${file.name}" is not a PDF file. Only PDF files are supported.`)
+  }
+}
+
+/**
+ * Opens a PDF with PDF.js. For password-protected files `requestPassword` is
+ * called (with whether the last attempt was wrong) until the right password is
+ * given, or it returns null to give up.
+ */
+export async function openPdfFile(file: File, requestPassword: (incorrect: boolean) => Promise<string | null>) {
+  await checkPdfFile(file)
+  const pdfjs = await loadPdfJs()
+  let password: string | undefined
+
+  for (;;) {
+    try {
+      // PDF.js takes ownership of the buffer, so every attempt reads the file again.
+      // Eval is disabled so the editor keeps working under a strict Content Security Policy.
+      const data = await file.arrayBuffer()
+      return await pdfjs.getDocument({ ...documentOptions, data, password, isEvalSupported: false }).promise
+    } catch (error) {
+      if (error instanceof Error && error.name === "PasswordException") {
+        const incorrect = (error as Error & { code: number }).code === pdfjs.PasswordResponses.INCORRECT_PASSWORD
+        const nextPassword = await requestPassword(incorrect)
+        if (nextPassword === null) throw new PdfFileError(`"${file.name}" is password protected.`)
+        password = nextPassword
+      } else if (error instanceof pdfjs.InvalidPDFException) {
+        throw new PdfFileError(`"${file.name}" is damaged and could not be opened.`)
+      } else {
+        throw error
+      }
+    }
+  }
+}
+
+/** Whether a document is encrypted. pdf-lib cannot edit encrypted documents, even once PDF.js has opened them. */
+export async function isPdfEncrypted(pdf: PDFJS.PDFDocumentProxy) {
+  const { info } = await pdf.getMetadata()
+  return Boolean((info as { EncryptFilterName?: string | null }).EncryptFilterName)
+}
+
+/** Whether a document has an interactive form, whose fields can be filled in. */
+export async function hasPdfForm(pdf: PDFJS.PDFDocumentProxy) {
+  const { info } = await pdf.getMetadata()
+  return Boolean((info as { IsAcroFormPresent?: boolean }).IsAcroFormPresent)
+}
+
+/** Opens a PDF the editor made itself, e.g. an export to be rendered again. */
+export async function loadPdfData(data: Uint8Array) {
+  const pdfjs = await loadPdfJs()
+  return pdfjs.getDocument({ ...documentOptions, data, isEvalSupported: false }).promise
+}
+
+const blankPages = new Map<string, Promise<PDFJS.PDFPageProxy>>()
+
+/**
+ * A PDF.js page for a blank sheet of the given size, so inserted pages can be
+ * rendered, searched and exported through the same code as real pages.
+ */
+export function loadBlankPage(width: number, height: number) {
+  const key = `${width}x${height}`
+  let page = blankPages.get(key)
+  if (!page) {
+    page = (async () => {
+      const doc = await PDFDocument.create()
+      doc.addPage([width, height])
+      const blank = await loadPdfData(await doc.save())
+      return blank.getPage(1)
+    })()
+    page.catch(() => blankPages.delete(key))
+    blankPages.set(key, page)
+  }
+  return page
+}
@@ -0,0 +1,150 @@
+import { findTextMatches, type PageText, type TextMatch } from "@/lib/text-search"
+
+export interface PiiRule {
+  id: string
+  label: string
+  pattern: string
+  flags?: string
+}
+
+export interface PiiRulePack {
+  id: string
+  label: string
+  rules: PiiRule[]
+}
+
+/** User configuration saved with the project: built-in rules to skip and extra rules to run. */
+export interface PiiRuleConfig {
+  disabledRules: string[]
+  customRules: PiiRule[]
+}
+
+export interface PiiMatch extends TextMatch {
+  ruleId: string
+  ruleLabel: string
+}
+
+export const DEFAULT_PII_RULE_CONFIG: PiiRuleConfig = { disabledRules: [], customRules: [] }
+
+export const PII_RULE_PACKS: PiiRulePack[] = [
+  {
+    id: "contact",
+    label: "Contact details",
+    rules: [
+      { id: "email", label: "Email address", pattern: String.raw`[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}` },
+      {
+        id: "phone",
+        label: "Phone number",
+        // Separators are required so plain runs of digits are left to the more specific rules
+        pattern: String.raw`(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}(?!\w)`,
+      },
+    ],
+  },
+  {
+    id: "government",
+    label: "Government IDs",
+    rules: [
+      {
+        id: "ssn",
+        label: "US Social Security number",
+        pattern: String.raw`\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b`,
+      },
+      { id: "ein", label: "US Employer ID number", pattern: String.raw`\b\d{2}-\d{7}\b` },
+    ],
+  },
+  {
+    id: "financial",
+    label: "Financial",
+    rules: [
+      { id: "card", label: "Payment card number", pattern: String.raw`\b(?:\d[ -]?){12,18}\d\b` },
+      { id: "iban", label: "IBAN", pattern: String.raw`\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b` },
+      {
+        id: "account",
+        label: "Account number",
+        pattern: String.raw`(?<=\b(?:account|acct)\.?\s*(?:no\.?|number|#)?\s*[:#]?\s*)\d[\d -]{4,18}\d\b`,
+        flags: "i",
+      },
+    ],
+  },
+]
+
+const digitsOf = (text: string) => text.replace(/\D/g, "")
+
+const passesLuhn = (digits: string) => {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const passesIbanChecksum = (iban: string) => {
+  const compact = iban.replace(/\s/g, "")
+  const rearranged = compact.slice(4) + compact.slice(0, 4)
+  const numeric = rearranged.replace(/[A-Z]/g, (char) => String(char.charCodeAt(0) - 55))
+  let remainder = 0
+  for (const digit of numeric) remainder = (remainder * 10 + Number(digit)) % 97
+  return remainder === 1
+}
+
+// Checksums weed out the many digit runs that only look like card numbers or IBANs
+const VALIDATORS: Record<string, (text: string) => boolean> = {
+  card: (text) => passesLuhn(digitsOf(text)),
+  iban: passesIbanChecksum,
+}
+
+/** Compiles a rule for scanning. Throws a SyntaxError for an invalid pattern. */
+export function compileRule(rule: PiiRule) {
+  const flags = new Set(`${rule.flags ?? ""}g`)
+  return new RegExp(rule.pattern, Array.from(flags).join(""))
+}
+
+/** Whether a rule kept outside the editor, such as in a project file, has the shape of a rule and compiles. */
+export function isValidRule(rule: unknown): rule is PiiRule {
+  if (typeof rule !== "object" || rule === null) return false
+  const { id, label, pattern, flags } = rule as Record<string, unknown>
+  if (typeof id !== "string" || typeof label !== "string" || typeof pattern !== "string") return false
+  if (flags !== undefined && typeof flags !== "string") return false
+  try {
+    compileRule({ id, label, pattern, flags })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getActiveRules(config: PiiRuleConfig) {
+  const disabled = new Set(config.disabledRules)
+  return [...PII_RULE_PACKS.flatMap((pack) => pack.rules), ...config.customRules].filter(
+    (rule) => !disabled.has(rule.id),
+  )
+}
+
+/**
+ * Runs the rules over a page. Where rules overlap, the earlier rule wins, except
+ * that checksum-validated rules go first so a card number is not claimed as a
+ * phone number.
+ */
+export function scanPageText(pageText: PageText, rules: PiiRule[]): PiiMatch[] {
+  const matches: PiiMatch[] = []
+  const claimed: [number, number][] = []
+  const ordered = [...rules].sort((a, b) => Number(b.id in VALIDATORS) - Number(a.id in VALIDATORS))
+
+  ordered.forEach((rule) => {
+    const validate = VALIDATORS[rule.id]
+    findTextMatches(pageText, compileRule(rule), `${rule.id}:`).forEach((match) => {
+      if (validate && !validate(match.text)) return
+
+      if (claimed.some(([from, to]) => match.start < to && match.end > from)) return
+      claimed.push([match.start, match.end])
+      matches.push({ ...match, ruleId: rule.id, ruleLabel: rule.label })
+    })
+  })
+
+  return matches.sort((a, b) => a.rects[0].y - b.rects[0].y || a.rects[0].x - b.rects[0].x)
+}
@@ -0,0 +1,147 @@
+export const PROJECT_FILE_VERSION = 2
+
+export interface ProjectSource {
+  name: string
+  size: number
+  sha256: string
+  pageCount: number
+}
+
+/**
+ * A saved editing session. Edits are stored in page units, so a project can be
+ * reapplied to the same PDFs regardless of the zoom level it was made at.
+ */
+export interface ProjectFile<TEdits = unknown, TSettings = unknown> {
+  version: typeof PROJECT_FILE_VERSION
+  // The merged documents, in the order they were loaded
+  sources: ProjectSource[]
+  edits: TEdits
+  settings: TSettings
+  savedAt: string
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ProjectFileError"
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const parseSource = (source: Record<string, unknown>): ProjectSource => ({
+  name: String(source.name ?? ""),
+  size: Number(source.size ?? 0),
+  sha256: String(source.sha256),
+  pageCount: Number(source.pageCount ?? 0),
+})
+
+// Version 1 projects were saved for a single document
+const getSources = (data: Record<string, unknown>) => {
+  const sources = data.version === 1 ? [data.source] : data.sources
+  if (!Array.isArray(sources) || sources.length === 0) return null
+  if (!sources.every((source) => isRecord(source) && typeof source.sha256 === "string")) return null
+  return (sources as Record<string, unknown>[]).map(parseSource)
+}
+
+export async function hashPdf(data: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Parses a project file and checks its envelope. The edits and settings are
+ * returned as-is; callers validate the parts they understand.
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ProjectFileError("The project file is not valid JSON.")
+  }
+
+  if (!isRecord(data) || !("sources" in data || "source" in data)) {
+    throw new ProjectFileError("The file is not a PDF Editor project.")
+  }
+  if (data.version !== 1 && data.version !== PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`Project file version ${String(data.version)} is not supported.`)
+  }
+  const sources = getSources(data)
+  if (!sources) {
+    throw new ProjectFileError("The project file does not say which PDFs it belongs to.")
+  }
+  if (!isRecord(data.edits)) {
+    throw new ProjectFileError("The project file does not contain any edits.")
+  }
+
+  return {
+    version: PROJECT_FILE_VERSION,
+    sources,
+    edits: data.edits,
+    settings: isRecord(data.settings) ? data.settings : {},
+    savedAt: String(data.savedAt ?? ""),
+  }
+}
+
+const DB_NAME = "pdf-editor"
+const STORE_NAME = "sessions"
+const SESSION_KEY = "autosave"
+
+export interface SavedSession<TEdits = unknown, TSettings = unknown> {
+  files: File[]
+  project: ProjectFile<TEdits, TSettings>
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * The autosaved session keeps a copy of the PDFs themselves so a crashed or reloaded
+ * tab can resume without asking for the file again. Only one session is kept.
+ */
+export async function saveSession<TEdits, TSettings>(session: SavedSession<TEdits, TSettings>) {
+  await runTransaction("readwrite", (store) => store.put(session, SESSION_KEY))
+}
+
+export async function loadSession(): Promise<SavedSession | null> {
+  const session = await runTransaction<Record<string, unknown> | undefined>("readonly", (store) =>
+    store.get(SESSION_KEY),
+  )
+  if (!session) return null
+
+  // Sessions autosaved before documents could be merged hold a single file
+  const { source, ...project } = session.project as ProjectFile & { source?: ProjectSource }
+  if (session.file instanceof File && source) {
+    return { files: [session.file], project: { ...project, version: PROJECT_FILE_VERSION, sources: [source] } }
+  }
+  return session as unknown as SavedSession
+}
+
+export async function clearSession() {
+  await runTransaction("readwrite", (store) => store.delete(SESSION_KEY))
+}
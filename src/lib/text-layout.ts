@@ -0,0 +1,184 @@
+import { PDFDocument, StandardFonts, type PDFFont } from "pdf-lib"
+
+export type FontFamily = "helvetica" | "times" | "courier"
+
+export type TextAlign = "left" | "center" | "right"
+
+export interface FontStyle {
+  fontFamily: FontFamily
+  bold: boolean
+  italic: boolean
+}
+
+export interface TextStyle extends FontStyle {
+  fontSize: number
+  color: string
+  underline: boolean
+  align: TextAlign
+  // Wrapping width of the text area in page units, or null to size the box to its longest line
+  width: number | null
+  // Multiple of the font size
+  lineHeight: number
+  opacity: number
+  backgroundColor: string | null
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: "helvetica",
+  bold: false,
+  italic: false,
+  fontSize: 16,
+  color: "#000000",
+  underline: false,
+  align: "left",
+  width: null,
+  lineHeight: 1.2,
+  opacity: 1,
+  backgroundColor: null,
+}
+
+// Underline position below the baseline and stroke thickness, as fractions of the font size
+export const UNDERLINE_OFFSET = 0.1
+export const UNDERLINE_THICKNESS = 0.05
+
+export interface TextLayoutOptions extends TextStyle {
+  text: string
+  padding: number
+}
+
+export interface TextLayoutLine {
+  text: string
+  x: number
+  baseline: number
+  width: number
+}
+
+export interface TextLayout {
+  lines: TextLayoutLine[]
+  width: number
+  height: number
+}
+
+export const FONT_FAMILIES: { value: FontFamily; label: string; css: string }[] = [
+  { value: "helvetica", label: "Helvetica", css: "Helvetica, Arial, sans-serif" },
+  { value: "times", label: "Times", css: '"Times New Roman", Times, serif' },
+  { value: "courier", label: "Courier", css: '"Courier New", Courier, monospace' },
+]
+
+const STANDARD_FONTS: Record<FontFamily, [StandardFonts, StandardFonts, StandardFonts, StandardFonts]> = {
+  helvetica: [
+    StandardFonts.Helvetica,
+    StandardFonts.HelveticaBold,
+    StandardFonts.HelveticaOblique,
+    StandardFonts.HelveticaBoldOblique,
+  ],
+  times: [
+    StandardFonts.TimesRoman,
+    StandardFonts.TimesRomanBold,
+    StandardFonts.TimesRomanItalic,
+    StandardFonts.TimesRomanBoldItalic,
+  ],
+  courier: [
+    StandardFonts.Courier,
+    StandardFonts.CourierBold,
+    StandardFonts.CourierOblique,
+    StandardFonts.CourierBoldOblique,
+  ],
+}
+
+export function getStandardFont({ fontFamily, bold, italic }: FontStyle) {
+  return STANDARD_FONTS[fontFamily][(bold ? 1 : 0) + (italic ? 2 : 0)]
+}
+
+export type FontLoader = (style: FontStyle) => PDFFont
+
+let measurementFontsPromise: Promise<FontLoader> | null = null
+
+/**
+ * Embeds every standard font into a scratch document so the editor can lay out
+ * text with exactly the metrics the exported PDF will use.
+ */
+export function loadMeasurementFonts() {
+  if (!measurementFontsPromise) {
+    measurementFontsPromise = (async () => {
+      const doc = await PDFDocument.create()
+      const fonts = new Map<StandardFonts, PDFFont>()
+      for (const name of Object.values(STANDARD_FONTS).flat()) {
+        fonts.set(name, await doc.embedFont(name))
+      }
+      return (style: FontStyle) => fonts.get(getStandardFont(style))!
+    })().catch((error) => {
+      measurementFontsPromise = null
+      throw error
+    })
+  }
+  return measurementFontsPromise
+}
+
+// Standard fonts only cover WinAnsi, so anything else is replaced rather than failing the export
+const sanitizeText = (text: string, font: PDFFont) => {
+  const supported = new Set(font.getCharacterSet())
+  return Array.from(text.replace(/\t/g, "    "))
+    .map((char) => (char === "\n" || supported.has(char.codePointAt(0) ?? 0) ? char : "?"))
+    .join("")
+}
+
+const wrapParagraph = (paragraph: string, maxWidth: number | null, measure: (text: string) => number) => {
+  if (maxWidth === null) return [paragraph]
+
+  const lines: string[] = []
+  let line = ""
+  for (const word of paragraph.split(/(?<=\s)/)) {
+    const candidate = line + word
+    if (!line || measure(candidate.trimEnd()) <= maxWidth) {
+      line = candidate
+    } else {
+      lines.push(line.trimEnd())
+      line = word
+    }
+
+    // Break words that are wider than the box on their own
+    while (measure(line.trimEnd()) > maxWidth && line.length > 1) {
+      let end = line.length - 1
+      while (end > 1 && measure(line.slice(0, end)) > maxWidth) end--
+      lines.push(line.slice(0, end))
+      line = line.slice(end)
+    }
+  }
+  lines.push(line.trimEnd())
+  return lines
+}
+
+/**
+ * Breaks text into lines and positions them in page units relative to the
+ * box's top-left corner. The editor overlay and the export both draw from this
+ * layout, so wrapping and alignment always match.
+ */
+export function layoutText(options: TextLayoutOptions, font: PDFFont): TextLayout {
+  const { fontSize, lineHeight, align, width, padding } = options
+  const measure = (text: string) => font.widthOfTextAtSize(text, fontSize)
+
+  const texts = sanitizeText(options.text, font)
+    .split("\n")
+    .flatMap((paragraph) => wrapParagraph(paragraph, width, measure))
+  const widths = texts.map(measure)
+  const contentWidth = width ?? Math.max(0, ...widths)
+
+  // Center the font's ascent-to-descent range in each line, as CSS line-height does
+  const lineBox = fontSize * lineHeight
+  const ascent = font.heightAtSize(fontSize, { descender: false })
+  const halfLeading = (lineBox - font.heightAtSize(fontSize)) / 2
+
+  const lines = texts.map((text, index) => {
+    const slack = contentWidth - widths[index]
+    const offset = align === "center" ? slack / 2 : align === "right" ? slack : 0
+    return {
+      text,
+      x: padding + offset,
+      baseline: padding + index * lineBox + halfLeading + ascent,
+      width: widths[index],
+    }
+  })
+
+  return { lines, width: contentWidth + padding * 2, height: texts.length * lineBox + padding * 2 }
+}
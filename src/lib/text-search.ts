@@ -0,0 +1,146 @@
+import type { PDFPageProxy, PageViewport } from "pdfjs-dist"
+import type { TextItem } from "pdfjs-dist/types/src/display/api"
+
+export interface TextRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface TextSpan {
+  start: number
+  end: number
+  item: TextItem
+}
+
+/** The text of one page, with each character range mapped back to the item that drew it. */
+export interface PageText {
+  pageNumber: number
+  text: string
+  spans: TextSpan[]
+  viewport: PageViewport
+}
+
+export interface TextMatch {
+  id: string
+  pageNumber: number
+  // Character offsets into the page text
+  start: number
+  end: number
+  text: string
+  before: string
+  after: string
+  // Page units, covering the matched glyphs
+  rects: TextRect[]
+}
+
+const CONTEXT_LENGTH = 30
+
+// Glyphs hang below the baseline by roughly this fraction of the font height
+const DESCENT = 0.25
+
+// Margin added around matches so antialiased glyph edges are covered too
+const MATCH_PADDING = 1
+
+/** Reads a page's text, positioned in the given scale-1 viewport (which fixes the page rotation). */
+export async function extractPageText(page: PDFPageProxy, viewport: PageViewport): Promise<PageText> {
+  const content = await page.getTextContent()
+  const spans: TextSpan[] = []
+  let text = ""
+
+  content.items.forEach((item) => {
+    if (!("str" in item)) return
+    spans.push({ start: text.length, end: text.length + item.str.length, item })
+    text += item.str
+    if (item.hasEOL) text += "\n"
+  })
+
+  return { pageNumber: page.pageNumber, text, spans, viewport }
+}
+
+/**
+ * Bounds of characters [from, to) of a text item in page units. Characters are
+ * assumed to share the item's width evenly, which is close enough for
+ * covering them with a blur or redaction.
+ */
+const getItemRect = (item: TextItem, from: number, to: number, viewport: PageViewport): TextRect => {
+  const [a, b, c, d, e, f] = item.transform as number[]
+  const along = Math.hypot(a, b) || 1
+  const across = Math.hypot(c, d) || 1
+  const length = item.str.length || 1
+  const startOffset = (item.width * from) / length
+  const endOffset = (item.width * to) / length
+
+  // Corners of the glyph box in PDF user space, following the text direction
+  const corners = [
+    [startOffset, -item.height * DESCENT],
+    [endOffset, -item.height * DESCENT],
+    [startOffset, item.height],
+    [endOffset, item.height],
+  ].map(([u, v]) =>
+    viewport.convertToViewportPoint(e + (a / along) * u + (c / across) * v, f + (b / along) * u + (d / across) * v),
+  )
+
+  const xs = corners.map(([x]) => x)
+  const ys = corners.map(([, y]) => y)
+  const left = Math.min(...xs) - MATCH_PADDING
+  const top = Math.min(...ys) - MATCH_PADDING
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...xs) + MATCH_PADDING - left,
+    height: Math.max(...ys) + MATCH_PADDING - top,
+  }
+}
+
+export function getRangeRects(pageText: PageText, start: number, end: number) {
+  return pageText.spans
+    .filter((span) => span.start < end && span.end > start && span.item.str.trim())
+    .map((span) => {
+      const from = Math.max(start, span.start) - span.start
+      const to = Math.min(end, span.end) - span.start
+      return getItemRect(span.item, from, to, pageText.viewport)
+    })
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, " ")
+
+/** Finds every match of a global regular expression on a page. */
+export function findTextMatches(pageText: PageText, pattern: RegExp, idPrefix = ""): TextMatch[] {
+  const matches: TextMatch[] = []
+  for (const match of Array.from(pageText.text.matchAll(pattern))) {
+    const start = match.index
+    const end = start + match[0].length
+    if (end === start) continue
+
+    const rects = getRangeRects(pageText, start, end)
+    if (rects.length === 0) continue
+
+    matches.push({
+      id: `${idPrefix}${pageText.pageNumber}:${start}:${end}`,
+      pageNumber: pageText.pageNumber,
+      start,
+      end,
+      text: match[0],
+      before: collapseWhitespace(pageText.text.slice(Math.max(0, start - CONTEXT_LENGTH), start)).trimStart(),
+      after: collapseWhitespace(pageText.text.slice(end, end + CONTEXT_LENGTH)).trimEnd(),
+      rects,
+    })
+  }
+  return matches
+}
+
+export interface SearchOptions {
+  useRegex: boolean
+  matchCase: boolean
+  wholeWord: boolean
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/** Builds the pattern for a search query. Throws a SyntaxError for an invalid regular expression. */
+export function compileSearchQuery(query: string, { useRegex, matchCase, wholeWord }: SearchOptions) {
+  const source = useRegex ? query : escapeRegExp(query)
+  return new RegExp(wholeWord ? `(?<!\\w)(?:${source})(?!\\w)` : source, matchCase ? "g" : "gi")
+}
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import { createTiff, type TiffPage } from "@/lib/tiff"
+
+// Field types and their sizes in bytes, by their numbers in the TIFF 6.0 specification
+const TYPE_SIZES: { [type: number]: number } = { 3: 2, 4: 4, 5: 8 }
+
+interface TiffEntry {
+  type: number
+  count: number
+  values: number[]
+}
+
+/** Reads every IFD of a little-endian TIFF file, with each entry's values resolved. */
+function readTiff(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  assert.equal(view.getUint16(0, true), 0x4949)
+  assert.equal(view.getUint16(2, true), 42)
+
+  const pages: Map<number, TiffEntry>[] = []
+  let offset = view.getUint32(4, true)
+  while (offset !== 0) {
+    const entries = new Map<number, TiffEntry>()
+    const count = view.getUint16(offset, true)
+    for (let index = 0; index < count; index++) {
+      const entry = offset + 2 + index * 12
+      const type = view.getUint16(entry + 2, true)
+      const valueCount = view.getUint32(entry + 4, true)
+      const size = TYPE_SIZES[type]
+      const valueOffset = valueCount * size > 4 ? view.getUint32(entry + 8, true) : entry + 8
+      const values = Array.from({ length: valueCount }, (_, value) => {
+        const position = valueOffset + value * size
+        if (type === 3) return view.getUint16(position, true)
+        if (type === 4) return view.getUint32(position, true)
+        return view.getUint32(position, true) / view.getUint32(position + 4, true)
+      })
+      entries.set(view.getUint16(entry, true), { type, count: valueCount, values })
+    }
+    pages.push(entries)
+    offset = view.getUint32(offset + 2 + count * 12, true)
+  }
+  return pages
+}
+
+/** Unpacks a PackBits strip. */
+function unpackBits(bytes: Uint8Array) {
+  const output: number[] = []
+  for (let index = 0; index < bytes.length; ) {
+    const header = (bytes[index++] << 24) >> 24
+    if (header >= 0) {
+      output.push(...Array.from(bytes.subarray(index, index + header + 1)))
+      index += header + 1
+    } else if (header !== -128) {
+      for (let repeat = 0; repeat < 1 - header; repeat++) output.push(bytes[index])
+      index++
+    }
+  }
+  return output
+}
+
+// Pixels that mix runs and noise, so both kinds of packing are used
+function createPage(width: number, height: number, seed: number): TiffPage {
+  const data = new Uint8ClampedArray(width * height * 4)
+  let state = seed
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0
+    const isRun = Math.floor(pixel / 40) % 2 === 0
+    data.set(isRun ? [10, 20, 30, 255] : [state & 255, (state >> 8) & 255, (state >> 16) & 255, 255], pixel * 4)
+  }
+  return { width, height, data }
+}
+
+describe("createTiff", () => {
+  it("writes pages that read back with their size, samples and pixels", async () => {
+    // Large enough for every page after the first to start past 65535 bytes
+    const pages = [createPage(200, 150, 1), createPage(120, 90, 2), createPage(7, 3, 3)]
+    const blob = await createTiff(pages.length, 150, async (index) => pages[index])
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    const ifds = readTiff(bytes)
+
+    assert.equal(blob.type, "image/tiff")
+    assert.equal(ifds.length, pages.length)
+    ifds.forEach((ifd, index) => {
+      const { width, height, data } = pages[index]
+      assert.deepEqual(ifd.get(256)?.values, [width])
+      assert.deepEqual(ifd.get(257)?.values, [height])
+      assert.deepEqual(ifd.get(258)?.values, [8, 8, 8])
+      assert.deepEqual(ifd.get(259)?.values, [32773])
+      assert.deepEqual(ifd.get(277)?.values, [3])
+      assert.deepEqual(ifd.get(282)?.values, [150])
+      assert.deepEqual(ifd.get(283)?.values, [150])
+      assert.deepEqual(ifd.get(297)?.values, [index, pages.length])
+
+      const [stripOffset] = ifd.get(273)!.values
+      const [stripSize] = ifd.get(279)!.values
+      const pixels = unpackBits(bytes.subarray(stripOffset, stripOffset + stripSize))
+      const expected = Array.from(data).filter((_, sample) => sample % 4 !== 3)
+      assert.deepEqual(pixels, expected)
+    })
+  })
+
+  it("starts every IFD on a word boundary", async () => {
+    const pages = [createPage(3, 1, 4), createPage(5, 1, 5)]
+    const blob = await createTiff(pages.length, 72, async (index) => pages[index])
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    const view = new DataView(bytes.buffer)
+    const first = view.getUint32(4, true)
+    const second = view.getUint32(first + 2 + view.getUint16(first, true) * 12, true)
+    assert.equal(first % 2, 0)
+    assert.equal(second % 2, 0)
+    assert.ok(second > first)
+  })
+})
@@ -0,0 +1,140 @@
+/** Pixels of one page of a TIFF image, as read from a canvas. The alpha channel is dropped. */
+export type TiffPage = Pick<ImageData, "width" | "height" | "data">
+
+// Field types, by their numbers in the TIFF 6.0 specification
+const SHORT = 3
+const LONG = 4
+const RATIONAL = 5
+
+const PACKBITS_COMPRESSION = 32773
+const RGB_PHOTOMETRIC = 2
+const INCH_UNIT = 2
+
+const HEADER_SIZE = 8
+const ENTRY_COUNT = 14
+const IFD_SIZE = 2 + ENTRY_COUNT * 12 + 4
+// Bits per sample (three shorts, padded to a word) and the two resolutions, which do not fit in their entries
+const EXTRA_SIZE = 8 + 8 + 8
+
+/**
+ * Compresses one row of samples with PackBits: runs of a repeated byte are
+ * stored once with their length, anything else as literal bytes. TIFF readers
+ * expect every row to be packed on its own.
+ */
+const packRow = (row: Uint8Array, out: Uint8Array, start: number) => {
+  let position = start
+  let index = 0
+  while (index < row.length) {
+    let run = 1
+    while (index + run < row.length && run < 128 && row[index + run] === row[index]) run++
+
+    if (run > 2) {
+      out[position++] = 257 - run
+      out[position++] = row[index]
+      index += run
+      continue
+    }
+
+    // Literal bytes last until the next run of three or more, as shorter runs save nothing
+    let end = index + 1
+    const startsRun = (at: number) => at + 2 < row.length && row[at] === row[at + 1] && row[at] === row[at + 2]
+    while (end < row.length && end - index < 128 && !startsRun(end)) end++
+    out[position++] = end - index - 1
+    out.set(row.subarray(index, end), position)
+    position += end - index
+    index = end
+  }
+  return position
+}
+
+const packPage = ({ width, height, data }: TiffPage) => {
+  const rowSize = width * 3
+  const row = new Uint8Array(rowSize)
+  // Packing can grow a row by a byte for every 128 literal bytes
+  const out = new Uint8Array(height * (rowSize + Math.ceil(rowSize / 128)))
+  let length = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = (y * width + x) * 4
+      row[x * 3] = data[pixel]
+      row[x * 3 + 1] = data[pixel + 1]
+      row[x * 3 + 2] = data[pixel + 2]
+    }
+    length = packRow(row, out, length)
+  }
+  return out.subarray(0, length)
+}
+
+/**
+ * Builds a multi-page TIFF image, one RGB page after another, each stored as a
+ * single PackBits strip. Pages are asked for one at a time so only one page's
+ * pixels need to be held at once. `dpi` is written as every page's resolution.
+ */
+export async function createTiff(pageCount: number, dpi: number, renderPage: (index: number) => Promise<TiffPage>) {
+  const parts: Uint8Array[] = []
+  const header = new DataView(new ArrayBuffer(HEADER_SIZE))
+  // "II": byte order is little-endian
+  header.setUint16(0, 0x4949, true)
+  header.setUint16(2, 42, true)
+  header.setUint32(4, HEADER_SIZE, true)
+  parts.push(new Uint8Array(header.buffer))
+  let offset = HEADER_SIZE
+
+  for (let index = 0; index < pageCount; index++) {
+    const page = await renderPage(index)
+    const strip = packPage(page)
+    // Every IFD has to start on a word boundary
+    const padding = strip.length % 2
+    const extraOffset = offset + IFD_SIZE
+    const stripOffset = extraOffset + EXTRA_SIZE
+    const nextOffset = index < pageCount - 1 ? stripOffset + strip.length + padding : 0
+
+    const ifd = new DataView(new ArrayBuffer(IFD_SIZE + EXTRA_SIZE))
+    ifd.setUint16(0, ENTRY_COUNT, true)
+    let entry = 2
+    const addEntry = (tag: number, type: number, count: number, value: number, second?: number) => {
+      ifd.setUint16(entry, tag, true)
+      ifd.setUint16(entry + 2, type, true)
+      ifd.setUint32(entry + 4, count, true)
+      // Up to two shorts are packed into the start of the value field. Anything longer than
+      // four bytes is stored after the IFD, and the field holds its offset instead.
+      if (type === SHORT && count <= 2) {
+        ifd.setUint16(entry + 8, value, true)
+        if (second !== undefined) ifd.setUint16(entry + 10, second, true)
+      } else {
+        ifd.setUint32(entry + 8, value, true)
+      }
+      entry += 12
+    }
+
+    // Entries must be sorted by tag
+    addEntry(256, LONG, 1, page.width)
+    addEntry(257, LONG, 1, page.height)
+    addEntry(258, SHORT, 3, extraOffset)
+    addEntry(259, SHORT, 1, PACKBITS_COMPRESSION)
+    addEntry(262, SHORT, 1, RGB_PHOTOMETRIC)
+    addEntry(273, LONG, 1, stripOffset)
+    addEntry(277, SHORT, 1, 3)
+    addEntry(278, LONG, 1, page.height)
+    addEntry(279, LONG, 1, strip.length)
+    addEntry(282, RATIONAL, 1, extraOffset + 8)
+    addEntry(283, RATIONAL, 1, extraOffset + 16)
+    addEntry(284, SHORT, 1, 1)
+    addEntry(296, SHORT, 1, INCH_UNIT)
+    addEntry(297, SHORT, 2, index, pageCount)
+    ifd.setUint32(entry, nextOffset, true)
+
+    // Bits per sample, then both resolutions as dots per one inch
+    for (let sample = 0; sample < 3; sample++) ifd.setUint16(IFD_SIZE + sample * 2, 8, true)
+    for (const resolution of [IFD_SIZE + 8, IFD_SIZE + 16]) {
+      ifd.setUint32(resolution, Math.round(dpi), true)
+      ifd.setUint32(resolution + 4, 1, true)
+    }
+
+    parts.push(new Uint8Array(ifd.buffer), strip)
+    if (padding) parts.push(new Uint8Array(padding))
+    offset = stripOffset + strip.length + padding
+  }
+
+  return new Blob(parts, { type: "image/tiff" })
+}
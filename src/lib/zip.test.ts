@@ -0,0 +1,101 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import { createZip } from "@/lib/zip"
+
+interface ZipFile {
+  name: string
+  flags: number
+  time: number
+  date: number
+  crc: number
+  data: Uint8Array
+}
+
+/** Reads a ZIP archive of stored files through its central directory, checking each local header against it. */
+function readZip(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+  const end = bytes.length - 22
+  assert.equal(view.getUint32(end, true), 0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  assert.equal(view.getUint16(end + 8, true), count)
+  const directorySize = view.getUint32(end + 12, true)
+  const directoryOffset = view.getUint32(end + 16, true)
+  assert.equal(directoryOffset + directorySize, end)
+
+  const files: ZipFile[] = []
+  let entry = directoryOffset
+  for (let index = 0; index < count; index++) {
+    assert.equal(view.getUint32(entry, true), 0x02014b50)
+    assert.equal(view.getUint16(entry + 10, true), 0, "files are stored without compression")
+    const size = view.getUint32(entry + 20, true)
+    assert.equal(view.getUint32(entry + 24, true), size)
+    const nameLength = view.getUint16(entry + 28, true)
+    const name = decoder.decode(bytes.subarray(entry + 46, entry + 46 + nameLength))
+    const file = {
+      name,
+      flags: view.getUint16(entry + 8, true),
+      time: view.getUint16(entry + 12, true),
+      date: view.getUint16(entry + 14, true),
+      crc: view.getUint32(entry + 16, true),
+    }
+
+    const local = view.getUint32(entry + 42, true)
+    assert.equal(view.getUint32(local, true), 0x04034b50)
+    assert.equal(view.getUint16(local + 6, true), file.flags)
+    assert.equal(view.getUint16(local + 10, true), file.time)
+    assert.equal(view.getUint16(local + 12, true), file.date)
+    assert.equal(view.getUint32(local + 14, true), file.crc)
+    assert.equal(view.getUint32(local + 18, true), size)
+    assert.equal(view.getUint16(local + 26, true), nameLength)
+    assert.equal(decoder.decode(bytes.subarray(local + 30, local + 30 + nameLength)), name)
+    const start = local + 30 + nameLength
+    files.push({ ...file, data: bytes.subarray(start, start + size) })
+
+    entry += 46 + nameLength
+  }
+  assert.equal(entry, end)
+  return files
+}
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+describe("createZip", () => {
+  it("stores each file with its name, data and checksum", async () => {
+    const encoder = new TextEncoder()
+    const entries = [
+      { name: "check.txt", data: encoder.encode("123456789") },
+      { name: "Überweisung – März.pdf", data: Uint8Array.from({ length: 5000 }, (_, index) => (index * 7) & 255) },
+      { name: "empty.pdf", data: new Uint8Array(0) },
+    ]
+    const blob = createZip(entries)
+    const files = readZip(await toBytes(blob))
+
+    assert.equal(blob.type, "application/zip")
+    assert.deepEqual(
+      files.map(({ name }) => name),
+      entries.map(({ name }) => name),
+    )
+    files.forEach((file, index) => {
+      assert.deepEqual(Array.from(file.data), Array.from(entries[index].data))
+      assert.equal(file.flags & 0x0800, 0x0800, "names are marked as UTF-8")
+    })
+    // The standard CRC-32 check value, and that of no data
+    assert.equal(files[0].crc, 0xcbf43926)
+    assert.equal(files[2].crc, 0)
+  })
+
+  it("stamps files with the MS-DOS date and time", async () => {
+    const modified = new Date(2024, 2, 9, 14, 30, 45)
+    const [{ time, date }] = readZip(await toBytes(createZip([{ name: "a.pdf", data: new Uint8Array([1]) }], modified)))
+    assert.deepEqual([date >> 9, (date >> 5) & 15, date & 31], [2024 - 1980, 3, 9])
+    assert.deepEqual([time >> 11, (time >> 5) & 63, (time & 31) * 2], [14, 30, 44])
+  })
+
+  it("writes an empty archive", async () => {
+    const bytes = await toBytes(createZip([]))
+    assert.equal(bytes.length, 22)
+    assert.deepEqual(readZip(bytes), [])
+  })
+})
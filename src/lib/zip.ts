@@ -0,0 +1,80 @@
+/** A file to store in a ZIP archive. */
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  return crc >>> 0
+})
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let index = 0; index < data.length; index++) crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Names are UTF-8 rather than the legacy code page
+const UTF8_FLAG = 0x0800
+const ZIP_VERSION = 20
+
+/**
+ * Packs files into a ZIP archive. They are stored without compression: PDFs
+ * are compressed already, so deflating them again gains little. Archives over
+ * 4 GB, which need the ZIP64 format, are not supported.
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()) {
+  const encoder = new TextEncoder()
+  // MS-DOS date and time, which count from 1980 in two-second steps
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1)
+  const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate()
+
+  const parts: Uint8Array[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, ZIP_VERSION, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, nameBytes.length, true)
+    parts.push(new Uint8Array(local.buffer), nameBytes, data)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, ZIP_VERSION, true)
+    central.setUint16(6, ZIP_VERSION, true)
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, nameBytes.length, true)
+    central.setUint32(42, offset, true)
+    directory.push(new Uint8Array(central.buffer), nameBytes)
+
+    offset += 30 + nameBytes.length + data.length
+  })
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], { type: "application/zip" })
+}